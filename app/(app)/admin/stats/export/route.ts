@@ -0,0 +1,209 @@
+import * as z from 'zod';
+import {
+  usersStatsInputSchema,
+  type StatsPoint,
+  type UsersStats,
+} from '@/lib/api/user';
+import { getPreviousPeriod } from '@/lib/date-range';
+import {
+  createCsvStream,
+  createExportErrorResponse,
+  createExportResponse,
+  createXlsxStream,
+  EXPORT_FORMATS,
+  type ExportColumn,
+  type ExportSheet,
+} from '@/lib/export';
+import { getUsersStats } from '@/server/get-users-stats-action';
+
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  range: usersStatsInputSchema,
+  compare: z.boolean(),
+});
+
+// Fila diaria: el día N del rango junto al día N del período anterior (si se compara)
+interface DailyRow {
+  current: StatsPoint;
+  previous?: StatsPoint;
+}
+
+interface SummaryRow {
+  metric: string;
+  current: number;
+  previous?: number;
+}
+
+interface BreakdownRow {
+  key: string;
+  current: number;
+  previous?: number;
+}
+
+function sumSignups(stats: UsersStats) {
+  return stats.timeseries.reduce((total, point) => total + point.signups, 0);
+}
+
+function toBreakdownRows(
+  current: Record<string, number>,
+  previous?: Record<string, number>
+): BreakdownRow[] {
+  const keys = new Set([
+    ...Object.keys(current),
+    ...Object.keys(previous ?? {}),
+  ]);
+  return [...keys].map((key) => ({
+    key,
+    current: current[key] ?? 0,
+    previous: previous && (previous[key] ?? 0),
+  }));
+}
+
+// Agrega las columnas del período anterior solo cuando se pidió la comparación
+function withPrevious<T extends { previous?: unknown }>(
+  columns: ExportColumn<T>[],
+  previousColumns: ExportColumn<T>[],
+  compare: boolean
+): ExportColumn<T>[] {
+  return compare ? [...columns, ...previousColumns] : columns;
+}
+
+// GET /admin/stats/export?format=csv|json|xlsx&from=YYYY-MM-DD&to=YYYY-MM-DD&compare=1
+// - CSV: serie diaria (un CSV solo puede tener una tabla)
+// - JSON: respuesta completa del rango (y del período anterior si se compara)
+// - XLSX: hojas de resumen, serie diaria, roles y estados
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const parsed = exportQuerySchema.safeParse({
+    format: searchParams.get('format'),
+    range: { from: searchParams.get('from'), to: searchParams.get('to') },
+    compare: searchParams.get('compare') === '1',
+  });
+  if (!parsed.success) {
+    return Response.json(
+      {
+        error: {
+          message: parsed.error.issues[0]?.message ?? 'Invalid request',
+          code: 'INVALID_REQUEST',
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  const { format, range, compare } = parsed.data;
+
+  let stats: Awaited<ReturnType<typeof getUsersStats>>;
+  try {
+    stats = await getUsersStats(range, { compare });
+  } catch (error) {
+    return createExportErrorResponse(error);
+  }
+
+  const { current, previous } = stats;
+  // El nombre lleva el rango exportado en vez de la fecha del día
+  const filename = `users-stats-${range.from}-to-${range.to}.${format}`;
+
+  if (format === 'json') {
+    const body = {
+      range,
+      ...(previous && { previous_range: getPreviousPeriod(range) }),
+      current,
+      ...(previous && { previous }),
+    };
+    return createExportResponse(
+      `${JSON.stringify(body, null, 2)}\n`,
+      'json',
+      filename
+    );
+  }
+
+  const dailySheet: ExportSheet<DailyRow> = {
+    name: 'Daily',
+    columns: withPrevious<DailyRow>(
+      [
+        { header: 'Date', value: (row) => row.current.date },
+        { header: 'Signups', value: (row) => row.current.signups },
+        { header: 'Active users', value: (row) => row.current.active_users },
+      ],
+      [
+        { header: 'Previous date', value: (row) => row.previous?.date },
+        { header: 'Previous signups', value: (row) => row.previous?.signups },
+        {
+          header: 'Previous active users',
+          value: (row) => row.previous?.active_users,
+        },
+      ],
+      compare
+    ),
+    rows: current.timeseries.map((point, index) => ({
+      current: point,
+      previous: previous?.timeseries[index],
+    })),
+  };
+
+  if (format === 'csv') {
+    return createExportResponse(createCsvStream(dailySheet), 'csv', filename);
+  }
+
+  const summarySheet: ExportSheet<SummaryRow> = {
+    name: 'Summary',
+    columns: withPrevious<SummaryRow>(
+      [
+        { header: 'Metric', value: (row) => row.metric, width: 20 },
+        { header: `${range.from} to ${range.to}`, value: (row) => row.current },
+      ],
+      [{ header: 'Previous period', value: (row) => row.previous }],
+      compare
+    ),
+    rows: [
+      {
+        metric: 'Total users',
+        current: current.total_users,
+        previous: previous?.total_users,
+      },
+      {
+        metric: 'Active users',
+        current: current.active_users,
+        previous: previous?.active_users,
+      },
+      {
+        metric: 'New signups',
+        current: sumSignups(current),
+        previous: previous ? sumSignups(previous) : undefined,
+      },
+    ],
+  };
+
+  const breakdownColumns = (header: string) =>
+    withPrevious<BreakdownRow>(
+      [
+        { header, value: (row) => row.key },
+        { header: 'Users', value: (row) => row.current },
+      ],
+      [{ header: 'Previous period', value: (row) => row.previous }],
+      compare
+    );
+
+  return createExportResponse(
+    createXlsxStream([
+      summarySheet,
+      dailySheet,
+      {
+        name: 'By role',
+        columns: breakdownColumns('Role'),
+        rows: toBreakdownRows(current.users_by_role, previous?.users_by_role),
+      },
+      {
+        name: 'By status',
+        columns: breakdownColumns('Status'),
+        rows: toBreakdownRows(
+          current.users_by_status,
+          previous?.users_by_status
+        ),
+      },
+    ]),
+    'xlsx',
+    filename
+  );
+}
@@ -0,0 +1,25 @@
+import { UsersStatsView } from '@/components/users-stats-view';
+import { userApi } from '@/lib/api/user';
+import { DEFAULT_DATE_RANGE_PRESET, getPresetRange } from '@/lib/date-range';
+import { getTranslations } from '@/lib/i18n/server';
+import { requirePagePermission } from '@/lib/session';
+
+export default async function AdminStatsPage() {
+  await requirePagePermission('stats:read', '/admin/stats');
+
+  const range = getPresetRange(DEFAULT_DATE_RANGE_PRESET);
+  const stats = await userApi.stats(range, { skipRefresh: true });
+
+  const t = await getTranslations();
+
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-6">
+      <h1 className="text-3xl font-bold">{t('pages.usersStats')}</h1>
+      <UsersStatsView
+        initialStats={stats}
+        initialRange={range}
+        initialPreset={DEFAULT_DATE_RANGE_PRESET}
+      />
+    </div>
+  );
+}
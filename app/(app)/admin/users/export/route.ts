@@ -0,0 +1,114 @@
+import * as z from 'zod';
+import {
+  adminApi,
+  type AdminUser,
+  type ListUsersInput,
+  type UsersPage,
+} from '@/lib/api/admin';
+import {
+  buildExportFilename,
+  createCsvStream,
+  createExportErrorResponse,
+  createExportResponse,
+  createJsonArrayStream,
+  createXlsxStream,
+  EXPORT_FORMATS,
+  type ExportColumn,
+  type ExportSheet,
+} from '@/lib/export';
+import { requirePermission } from '@/lib/session';
+import { parseUsersQuery } from '@/lib/users-query';
+
+// Tamaño de página al recorrer la lista en el backend (máximo permitido por el endpoint)
+const EXPORT_PAGE_SIZE = 100;
+
+// Límite de filas por exportación: evita descargas que tarden minutos y carguen al backend
+const EXPORT_MAX_ROWS = 10_000;
+
+const columns: ExportColumn<AdminUser>[] = [
+  { header: 'ID', value: (user) => user.id, width: 38 },
+  { header: 'Email', value: (user) => user.email, width: 32 },
+  { header: 'Full name', value: (user) => user.full_name, width: 24 },
+  { header: 'Role', value: (user) => user.role },
+  { header: 'Status', value: (user) => user.status },
+  { header: 'Created at', value: (user) => user.created_at, width: 26 },
+];
+
+// Recorre todas las páginas que cumplen los filtros (la primera ya viene pedida)
+async function* iterateUsers(
+  input: Omit<ListUsersInput, 'page' | 'page_size'>,
+  firstPage: UsersPage
+): AsyncGenerator<AdminUser> {
+  const total = Math.min(firstPage.total, EXPORT_MAX_ROWS);
+  let exported = 0;
+  let usersPage = firstPage;
+
+  while (true) {
+    for (const user of usersPage.items) {
+      if (exported >= total) return;
+      exported++;
+      yield user;
+    }
+    if (exported >= total || usersPage.items.length === 0) return;
+    usersPage = await adminApi.listUsers({
+      ...input,
+      page: usersPage.page + 1,
+      page_size: EXPORT_PAGE_SIZE,
+    });
+  }
+}
+
+// GET /admin/users/export?format=csv|json|xlsx&q=&status=&sort=&order=
+// Exporta TODOS los usuarios que cumplen los filtros de la vista (la página actual se ignora)
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const format = z.enum(EXPORT_FORMATS).safeParse(searchParams.get('format'));
+  if (!format.success) {
+    return Response.json(
+      { error: { message: 'Invalid export format', code: 'INVALID_REQUEST' } },
+      { status: 400 }
+    );
+  }
+
+  const query = parseUsersQuery(Object.fromEntries(searchParams));
+  const input = {
+    sort: query.sort,
+    order: query.order,
+    q: query.q || undefined,
+    status: query.status,
+  };
+
+  // El primer request se hace antes de responder: si falla, el cliente recibe el error
+  // con su status en vez de un archivo cortado
+  let firstPage: UsersPage;
+  try {
+    await requirePermission('users:read');
+    firstPage = await adminApi.listUsers({
+      ...input,
+      page: 1,
+      page_size: EXPORT_PAGE_SIZE,
+    });
+  } catch (error) {
+    return createExportErrorResponse(error);
+  }
+
+  const sheet: ExportSheet<AdminUser> = {
+    name: 'Users',
+    columns,
+    rows: iterateUsers(input, firstPage),
+  };
+  const filename = buildExportFilename('users', format.data);
+
+  switch (format.data) {
+    case 'csv':
+      return createExportResponse(createCsvStream(sheet), 'csv', filename);
+    case 'json':
+      return createExportResponse(
+        createJsonArrayStream(sheet.rows),
+        'json',
+        filename
+      );
+    case 'xlsx':
+      return createExportResponse(createXlsxStream([sheet]), 'xlsx', filename);
+  }
+}
@@ -0,0 +1,80 @@
+import { redirect } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ExportMenu } from '@/components/export-menu';
+import { UsersFilters } from '@/components/users-filters';
+import { UsersTable } from '@/components/users-table';
+import { adminApi } from '@/lib/api/admin';
+import { getLocale, getTimeZone, getTranslations } from '@/lib/i18n/server';
+import { requirePagePermission } from '@/lib/session';
+import {
+  buildUsersExportHref,
+  buildUsersHref,
+  parseUsersQuery,
+  USERS_PAGE_SIZE,
+} from '@/lib/users-query';
+
+export default async function AdminUsersPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const query = parseUsersQuery(await searchParams);
+  const session = await requirePagePermission(
+    'users:read',
+    buildUsersHref(query)
+  );
+
+  const usersPage = await adminApi.listUsers(
+    {
+      page: query.page,
+      page_size: USERS_PAGE_SIZE,
+      sort: query.sort,
+      order: query.order,
+      q: query.q || undefined,
+      status: query.status,
+    },
+    { skipRefresh: true }
+  );
+
+  // Página fuera de rango (ej: se borraron usuarios o la URL se editó a mano): va a la última
+  const totalPages = Math.ceil(usersPage.total / USERS_PAGE_SIZE);
+  if (totalPages > 0 && query.page > totalPages) {
+    redirect(buildUsersHref(query, { page: totalPages }));
+  }
+
+  const locale = await getLocale();
+  const timeZone = await getTimeZone();
+  const t = await getTranslations();
+
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-6">
+      <h1 className="text-3xl font-bold">{t('pages.users')}</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('users.title')}</CardTitle>
+          <CardDescription>{t('users.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col justify-between gap-2 sm:flex-row">
+            <UsersFilters query={query} />
+            <ExportMenu href={buildUsersExportHref(query)} />
+          </div>
+          <UsersTable
+            query={query}
+            usersPage={usersPage}
+            currentUserId={session.user.id}
+            locale={locale}
+            timeZone={timeZone}
+            t={t}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Can } from '@/components/can';
+import { UserAvatar } from '@/components/user-avatar';
+import { formatDateTime } from '@/lib/i18n/format';
+import { getRoleLabel, getStatusLabel } from '@/lib/i18n/labels';
+import { getLocale, getTimeZone, getTranslations } from '@/lib/i18n/server';
+import { getCurrentSession } from '@/lib/session';
+import { buildLoginPath } from '@/lib/routes';
+
+export default async function DashboardPage() {
+  const session = await getCurrentSession();
+
+  // proxy.ts ya protege la ruta, pero la sesión puede haber sido revocada en el backend
+  if (!session) {
+    redirect(buildLoginPath('/dashboard'));
+  }
+
+  const { user, profile } = session;
+  const locale = await getLocale();
+  const timeZone = await getTimeZone();
+  const t = await getTranslations();
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">{t('pages.dashboard')}</h1>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/dashboard/profile">{t('dashboard.editProfile')}</Link>
+          </Button>
+          <Can permission="stats:read">
+            <Button asChild variant="outline">
+              <Link href="/admin/stats">{t('dashboard.showStats')}</Link>
+            </Button>
+          </Can>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('dashboard.userInformation')}</CardTitle>
+            <CardDescription>{t('dashboard.accountDetails')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.id')}
+              </p>
+              <p className="text-sm font-mono">{user.id}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.email')}
+              </p>
+              <p className="text-sm">{user.email}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.role')}
+              </p>
+              <p className="text-sm">
+                {user.role
+                  ? getRoleLabel(t, user.role)
+                  : t('common.notAssigned')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <UserAvatar
+                avatarUrl={profile.avatar_url}
+                fullName={profile.full_name}
+                email={profile.email ?? user.email}
+                className="size-12"
+              />
+              <div className="space-y-1.5">
+                <CardTitle>{t('dashboard.profileInformation')}</CardTitle>
+                <CardDescription>
+                  {t('dashboard.profileDetails')}
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.fullName')}
+              </p>
+              <p className="text-sm">
+                {profile.full_name || t('common.notSet')}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.email')}
+              </p>
+              <p className="text-sm">{profile.email || t('common.notSet')}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.bio')}
+              </p>
+              <p className="text-sm">{profile.bio || t('common.notSet')}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.status')}
+              </p>
+              <p className="text-sm">
+                {profile.status
+                  ? getStatusLabel(t, profile.status)
+                  : t('common.notSet')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('dashboard.timestamps')}</CardTitle>
+            <CardDescription>
+              {t('dashboard.timestampsDescription')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.createdAt')}
+              </p>
+              <p className="text-sm">
+                {profile.created_at
+                  ? formatDateTime(profile.created_at, locale, timeZone)
+                  : t('common.notAvailable')}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">
+                {t('dashboard.updatedAt')}
+              </p>
+              <p className="text-sm">
+                {profile.updated_at
+                  ? formatDateTime(profile.updated_at, locale, timeZone)
+                  : t('common.notAvailable')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('dashboard.rawSession')}</CardTitle>
+          <CardDescription>
+            {t('dashboard.rawSessionDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <pre className="bg-muted p-4 rounded-md overflow-auto text-xs">
+            {JSON.stringify(session, null, 2)}
+          </pre>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
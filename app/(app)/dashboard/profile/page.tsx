@@ -0,0 +1,24 @@
+import { redirect } from 'next/navigation';
+import { AvatarUploader } from '@/components/avatar-uploader';
+import { ProfileForm } from '@/components/profile-form';
+import { getTranslations } from '@/lib/i18n/server';
+import { buildLoginPath } from '@/lib/routes';
+import { getCurrentSession } from '@/lib/session';
+
+export default async function ProfilePage() {
+  const session = await getCurrentSession();
+
+  if (!session) {
+    redirect(buildLoginPath('/dashboard/profile'));
+  }
+
+  const t = await getTranslations();
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-6">
+      <h1 className="text-3xl font-bold">{t('pages.profile')}</h1>
+      <AvatarUploader profile={session.profile} />
+      <ProfileForm profile={session.profile} />
+    </div>
+  );
+}
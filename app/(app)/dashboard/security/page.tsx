@@ -0,0 +1,27 @@
+import { redirect } from 'next/navigation';
+import { ChangePasswordForm } from '@/components/change-password-form';
+import { MfaSettings } from '@/components/mfa-settings';
+import { mfaApi } from '@/lib/api/mfa';
+import { getTranslations } from '@/lib/i18n/server';
+import { buildLoginPath } from '@/lib/routes';
+import { getCurrentSession } from '@/lib/session';
+
+export default async function SecurityPage() {
+  const session = await getCurrentSession();
+
+  if (!session) {
+    redirect(buildLoginPath('/dashboard/security'));
+  }
+
+  const mfaStatus = await mfaApi.status({ skipRefresh: true });
+
+  const t = await getTranslations();
+
+  return (
+    <div className="mx-auto w-full max-w-2xl space-y-6">
+      <h1 className="text-3xl font-bold">{t('pages.security')}</h1>
+      <ChangePasswordForm />
+      <MfaSettings status={mfaStatus} />
+    </div>
+  );
+}
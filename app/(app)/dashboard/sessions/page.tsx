@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation';
+import { SessionsCard } from '@/components/sessions-card';
+import { userApi } from '@/lib/api/user';
+import { getTranslations } from '@/lib/i18n/server';
+import { buildLoginPath } from '@/lib/routes';
+import { getCurrentSession } from '@/lib/session';
+
+export default async function SessionsPage() {
+  const session = await getCurrentSession();
+
+  if (!session) {
+    redirect(buildLoginPath('/dashboard/sessions'));
+  }
+
+  const sessions = await userApi.sessions({ skipRefresh: true });
+
+  const t = await getTranslations();
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-6">
+      <h1 className="text-3xl font-bold">{t('pages.sessions')}</h1>
+      <SessionsCard sessions={sessions} />
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { cookies } from 'next/headers';
+import { AppBreadcrumbs } from '@/components/app-breadcrumbs';
+import { AppSidebar } from '@/components/app-sidebar';
+import { PermissionsProvider } from '@/components/can';
+import { CommandPalette } from '@/components/command-palette';
+import { SessionExpiryProvider } from '@/components/session-expiry-provider';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { getCurrentSession } from '@/lib/session';
+
+export default async function AppLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const session = await getCurrentSession();
+
+  // Sin sesión no hay shell: cada página redirige al login con su propio returnTo
+  if (!session) {
+    return children;
+  }
+
+  const { user, profile } = session;
+  const cookieStore = await cookies();
+  const defaultOpen = cookieStore.get('sidebar_state')?.value !== 'false';
+
+  return (
+    <PermissionsProvider role={user.role}>
+      <SessionExpiryProvider>
+        <SidebarProvider defaultOpen={defaultOpen}>
+          <AppSidebar
+            user={{
+              email: profile.email ?? user.email,
+              fullName: profile.full_name,
+              avatarUrl: profile.avatar_url,
+            }}
+          />
+          <SidebarInset>
+            <header className="flex h-14 shrink-0 items-center gap-2 border-b px-4">
+              <SidebarTrigger className="-ml-1" />
+              <Separator
+                orientation="vertical"
+                className="mr-2 data-[orientation=vertical]:h-4"
+              />
+              <AppBreadcrumbs />
+              <CommandPalette />
+            </header>
+            <div className="flex-1 p-4 md:p-6">{children}</div>
+          </SidebarInset>
+        </SidebarProvider>
+      </SessionExpiryProvider>
+    </PermissionsProvider>
+  );
+}
@@ -0,0 +1,32 @@
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { getTranslations } from '@/lib/i18n/server';
+
+export default async function Forbidden() {
+  const t = await getTranslations();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black">
+        <Card className="w-full sm:max-w-md border border-primary">
+          <CardHeader>
+            <CardTitle>{t('forbidden.title')}</CardTitle>
+            <CardDescription>{t('forbidden.description')}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link href="/dashboard">{t('forbidden.back')}</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import type { Metadata } from 'next';
 import { Geist, Geist_Mono } from 'next/font/google';
-import { Toaster } from 'sonner';
+import { I18nProvider } from '@/components/i18n-provider';
+import { ThemeProvider } from '@/components/theme-provider';
+import { Toaster } from '@/components/ui/sonner';
+import { MESSAGES } from '@/lib/i18n/messages';
+import { getLocale, getTimeZone } from '@/lib/i18n/server';
 import './globals.css';
 
 const geistSans = Geist({
@@ -18,18 +22,36 @@ export const metadata: Metadata = {
   description: 'Generated by create next app',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+  const timeZone = await getTimeZone();
+
   return (
-    <html lang="en">
+    <html lang={locale} suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
-        <Toaster />
+        {/* El tema elegido se guarda en localStorage; 'system' sigue la preferencia del sistema operativo
+            suppressHydrationWarning en <html>: next-themes aplica la clase .dark antes de hidratar */}
+        <ThemeProvider
+          attribute="class"
+          defaultTheme="system"
+          enableSystem
+          disableTransitionOnChange
+        >
+          <I18nProvider
+            locale={locale}
+            timeZone={timeZone}
+            messages={MESSAGES[locale]}
+          >
+            {children}
+          </I18nProvider>
+          <Toaster />
+        </ThemeProvider>
       </body>
     </html>
   );
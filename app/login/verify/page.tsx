@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation';
+import { MfaVerifyForm } from '@/components/mfa-verify-form';
+import { getMfaChallenge } from '@/lib/auth';
+import { buildLoginPath, getSafeReturnTo, RETURN_TO_PARAM } from '@/lib/routes';
+
+export default async function MfaVerifyPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const returnTo = getSafeReturnTo((await searchParams)[RETURN_TO_PARAM]);
+
+  // Sin challenge pendiente (acceso directo o challenge vencido) no hay nada que verificar
+  if (!(await getMfaChallenge())) {
+    redirect(buildLoginPath(returnTo));
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black">
+        <MfaVerifyForm returnTo={returnTo} />
+      </main>
+    </div>
+  );
+}
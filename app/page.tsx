@@ -1,10 +1,17 @@
 import { LoginForm } from '@/components/login-form';
+import { getSafeReturnTo, RETURN_TO_PARAM } from '@/lib/routes';
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const returnTo = getSafeReturnTo((await searchParams)[RETURN_TO_PARAM]);
 
-export default function Home() {
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
       <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black">
-        <LoginForm />
+        <LoginForm returnTo={returnTo} />
       </main>
     </div>
   );
@@ -0,0 +1,11 @@
+import { RegisterForm } from '@/components/register-form';
+
+export default function RegisterPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black">
+        <RegisterForm />
+      </main>
+    </div>
+  );
+}
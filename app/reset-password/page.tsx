@@ -0,0 +1,24 @@
+import {
+  InvalidResetLink,
+  ResetPasswordForm,
+} from '@/components/reset-password-form';
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string | string[] }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-3xl flex-col items-center justify-between py-32 px-16 bg-white dark:bg-black">
+        {typeof token === 'string' && token ? (
+          <ResetPasswordForm token={token} />
+        ) : (
+          <InvalidResetLink reason="invalid" />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { Fragment } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { getBreadcrumbs } from '@/lib/navigation';
+
+import {
+  Breadcrumb,
+  BreadcrumbEllipsis,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { useTranslations } from '@/components/i18n-provider';
+
+export function AppBreadcrumbs() {
+  const pathname = usePathname();
+  const isMobile = useIsMobile();
+  const t = useTranslations();
+  const breadcrumbs = getBreadcrumbs(pathname);
+
+  // En mobile solo se muestra la página actual; los niveles anteriores se resumen con "…"
+  const visible = isMobile ? breadcrumbs.slice(-1) : breadcrumbs;
+  const isCollapsed = visible.length < breadcrumbs.length;
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        {isCollapsed && (
+          <>
+            <BreadcrumbItem>
+              <BreadcrumbEllipsis />
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+          </>
+        )}
+        {visible.map((breadcrumb, index) => {
+          const isLast = index === visible.length - 1;
+          return (
+            <Fragment key={breadcrumb.labelKey}>
+              <BreadcrumbItem>
+                {isLast ? (
+                  <BreadcrumbPage>{t(breadcrumb.labelKey)}</BreadcrumbPage>
+                ) : breadcrumb.href ? (
+                  <BreadcrumbLink asChild>
+                    <Link href={breadcrumb.href}>{t(breadcrumb.labelKey)}</Link>
+                  </BreadcrumbLink>
+                ) : (
+                  t(breadcrumb.labelKey)
+                )}
+              </BreadcrumbItem>
+              {!isLast && <BreadcrumbSeparator />}
+            </Fragment>
+          );
+        })}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
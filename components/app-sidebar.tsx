@@ -0,0 +1,91 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { KeyRound } from 'lucide-react';
+import { isNavItemActive, NAV_SECTIONS } from '@/lib/navigation';
+
+import { usePermissionCheck } from '@/components/can';
+import { useTranslations } from '@/components/i18n-provider';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import { UserMenu, type UserMenuUser } from '@/components/user-menu';
+
+export function AppSidebar({ user }: { user: UserMenuUser }) {
+  const pathname = usePathname();
+  const can = usePermissionCheck();
+  const t = useTranslations();
+  const { isMobile, setOpenMobile } = useSidebar();
+
+  const sections = NAV_SECTIONS.map((section) => ({
+    ...section,
+    items: section.items.filter(
+      (item) => !item.permission || can(item.permission)
+    ),
+  })).filter((section) => section.items.length > 0);
+
+  // En mobile el sidebar es un Sheet: se cierra al navegar para mostrar la página
+  const handleNavigate = () => {
+    if (isMobile) setOpenMobile(false);
+  };
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton size="lg" asChild>
+              <Link href="/dashboard" onClick={handleNavigate}>
+                <div className="bg-primary text-primary-foreground flex aspect-square size-8 items-center justify-center rounded-lg">
+                  <KeyRound className="size-4" />
+                </div>
+                <span className="truncate font-semibold">JWT Client</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+      <SidebarContent>
+        {sections.map((section) => (
+          <SidebarGroup key={section.labelKey}>
+            <SidebarGroupLabel>{t(section.labelKey)}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {section.items.map((item) => (
+                  <SidebarMenuItem key={item.href}>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={isNavItemActive(item, pathname)}
+                      tooltip={t(item.titleKey)}
+                    >
+                      <Link href={item.href} onClick={handleNavigate}>
+                        <item.icon />
+                        <span>{t(item.titleKey)}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ))}
+      </SidebarContent>
+      <SidebarFooter>
+        <UserMenu user={user} />
+      </SidebarFooter>
+      <SidebarRail />
+    </Sidebar>
+  );
+}
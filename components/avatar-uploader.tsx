@@ -0,0 +1,305 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { ImageUp } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ProfileData } from '@/lib/api/schemas';
+import { AVATAR_MIME_TYPES } from '@/lib/api/user';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import { cropImageToSquare, loadImage } from '@/lib/image';
+import { uploadAvatar } from '@/server/upload-avatar-action';
+
+import { UserAvatar } from '@/components/user-avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { useTranslations } from '@/components/i18n-provider';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+const VIEWPORT_SIZE = 256;
+const OUTPUT_SIZE = 512;
+const MAX_ZOOM = 3;
+const MAX_SOURCE_MB = 15;
+const MAX_SOURCE_BYTES = MAX_SOURCE_MB * 1024 * 1024;
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+interface SourceImage {
+  url: string;
+  element: HTMLImageElement;
+}
+
+// Escala con la que la imagen cubre exactamente el viewport (zoom = 1)
+function getBaseScale(image: HTMLImageElement) {
+  return VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight);
+}
+
+// Mantiene la imagen cubriendo todo el viewport: nunca quedan bordes vacíos en el recorte
+function clampOffset(image: HTMLImageElement, scale: number, offset: Offset) {
+  const minX = VIEWPORT_SIZE - image.naturalWidth * scale;
+  const minY = VIEWPORT_SIZE - image.naturalHeight * scale;
+  return {
+    x: Math.min(0, Math.max(minX, offset.x)),
+    y: Math.min(0, Math.max(minY, offset.y)),
+  };
+}
+
+function centeredOffset(image: HTMLImageElement, scale: number): Offset {
+  return {
+    x: (VIEWPORT_SIZE - image.naturalWidth * scale) / 2,
+    y: (VIEWPORT_SIZE - image.naturalHeight * scale) / 2,
+  };
+}
+
+export function AvatarUploader({ profile }: { profile: ProfileData }) {
+  const router = useRouter();
+  const t = useTranslations();
+  const handleSessionExpired = useSessionExpiredHandler();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const dragStart = React.useRef<{ pointer: Offset; offset: Offset } | null>(
+    null
+  );
+  const [source, setSource] = React.useState<SourceImage | null>(null);
+  const [zoom, setZoom] = React.useState(1);
+  const [offset, setOffset] = React.useState<Offset>({ x: 0, y: 0 });
+  const [avatarUrl, setAvatarUrl] = React.useState(profile.avatar_url);
+  // Si el server trae una versión nueva del perfil (ej: después de router.refresh()) se adopta su avatar
+  const [serverAvatar, setServerAvatar] = React.useState({
+    avatarUrl: profile.avatar_url,
+    updatedAt: profile.updated_at,
+  });
+  if (
+    profile.avatar_url !== serverAvatar.avatarUrl ||
+    profile.updated_at !== serverAvatar.updatedAt
+  ) {
+    setServerAvatar({
+      avatarUrl: profile.avatar_url,
+      updatedAt: profile.updated_at,
+    });
+    setAvatarUrl(profile.avatar_url);
+  }
+  const [isUploading, startUpload] = React.useTransition();
+
+  const scale = source ? getBaseScale(source.element) * zoom : 1;
+
+  const closeCropper = () => {
+    if (source) URL.revokeObjectURL(source.url);
+    setSource(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error(t('avatar.chooseImage'));
+      return;
+    }
+    if (file.size > MAX_SOURCE_BYTES) {
+      toast.error(t('avatar.tooLarge'), {
+        description: t('avatar.tooLargeDescription', { size: MAX_SOURCE_MB }),
+      });
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      const element = await loadImage(url);
+      const initialScale = getBaseScale(element);
+      setZoom(1);
+      setOffset(centeredOffset(element, initialScale));
+      setSource({ url, element });
+    } catch {
+      URL.revokeObjectURL(url);
+      toast.error(t('avatar.readFailed'));
+    }
+  };
+
+  // Al hacer zoom se mantiene fijo el punto de la imagen que está en el centro del viewport
+  const handleZoomChange = ([nextZoom]: number[]) => {
+    if (!source) return;
+    const baseScale = getBaseScale(source.element);
+    const center = VIEWPORT_SIZE / 2;
+    const imageX = (center - offset.x) / scale;
+    const imageY = (center - offset.y) / scale;
+    const nextScale = baseScale * nextZoom;
+    setZoom(nextZoom);
+    setOffset(
+      clampOffset(source.element, nextScale, {
+        x: center - imageX * nextScale,
+        y: center - imageY * nextScale,
+      })
+    );
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = {
+      pointer: { x: event.clientX, y: event.clientY },
+      offset,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current || !source) return;
+    const { pointer, offset: startOffset } = dragStart.current;
+    setOffset(
+      clampOffset(source.element, scale, {
+        x: startOffset.x + event.clientX - pointer.x,
+        y: startOffset.y + event.clientY - pointer.y,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleSave = () => {
+    if (!source) return;
+
+    startUpload(async () => {
+      try {
+        const blob = await cropImageToSquare(
+          source.element,
+          {
+            x: -offset.x / scale,
+            y: -offset.y / scale,
+            size: VIEWPORT_SIZE / scale,
+          },
+          OUTPUT_SIZE
+        );
+        const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+        const formData = new FormData();
+        formData.append('avatar', blob, `avatar.${extension}`);
+
+        const updatedProfile = await uploadAvatar(formData);
+        setAvatarUrl(updatedProfile.avatar_url);
+        closeCropper();
+        toast.success(t('avatar.updated'));
+        router.refresh();
+      } catch (error) {
+        if (handleSessionExpired(error)) return;
+        toast.error(t('avatar.uploadFailed'), {
+          description: getCaughtErrorMessage(t, error),
+        });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('avatar.title')}</CardTitle>
+        <CardDescription>{t('avatar.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-4">
+        <UserAvatar
+          avatarUrl={avatarUrl}
+          fullName={profile.full_name}
+          email={profile.email}
+          className="size-20 text-xl"
+        />
+        <input
+          ref={inputRef}
+          type="file"
+          accept={AVATAR_MIME_TYPES.join(',')}
+          className="sr-only"
+          id="avatar-upload-input"
+          onChange={handleFileChange}
+        />
+        <Button variant="outline" onClick={() => inputRef.current?.click()}>
+          <ImageUp />
+          {t('avatar.change')}
+        </Button>
+      </CardContent>
+
+      <Dialog
+        open={!!source}
+        onOpenChange={(open) => {
+          if (!open && !isUploading) closeCropper();
+        }}
+      >
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{t('avatar.cropTitle')}</DialogTitle>
+            <DialogDescription>{t('avatar.cropDescription')}</DialogDescription>
+          </DialogHeader>
+          {source && (
+            <div className="flex flex-col items-center gap-4">
+              <div
+                className="relative cursor-grab touch-none overflow-hidden rounded-md bg-muted active:cursor-grabbing"
+                style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                {/* Object URL local: no pasa por el optimizador de imágenes */}
+                <Image
+                  src={source.url}
+                  alt={t('avatar.cropPreview')}
+                  width={source.element.naturalWidth}
+                  height={source.element.naturalHeight}
+                  unoptimized
+                  draggable={false}
+                  className="absolute top-0 left-0 max-w-none select-none"
+                  style={{
+                    width: source.element.naturalWidth * scale,
+                    height: source.element.naturalHeight * scale,
+                    transform: `translate(${offset.x}px, ${offset.y}px)`,
+                  }}
+                />
+                {/* Máscara circular: así se verá el avatar */}
+                <div className="pointer-events-none absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+              </div>
+              <Slider
+                value={[zoom]}
+                min={1}
+                max={MAX_ZOOM}
+                step={0.01}
+                onValueChange={handleZoomChange}
+                aria-label={t('avatar.zoom')}
+                className="w-full"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeCropper}
+              disabled={isUploading}
+            >
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={isUploading}>
+              {isUploading ? t('avatar.uploading') : t('avatar.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+const RoleContext = createContext<string | null>(null);
+
+export function PermissionsProvider({
+  role,
+  children,
+}: {
+  role: string | null;
+  children: React.ReactNode;
+}) {
+  return <RoleContext.Provider value={role}>{children}</RoleContext.Provider>;
+}
+
+export function usePermissionCheck() {
+  const role = useContext(RoleContext);
+  return (permission: Permission) => hasPermission(role, permission);
+}
+
+export function usePermission(permission: Permission) {
+  return usePermissionCheck()(permission);
+}
+
+export function Can({
+  permission,
+  fallback = null,
+  children,
+}: {
+  permission: Permission;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return usePermission(permission) ? children : fallback;
+}
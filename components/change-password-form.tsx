@@ -0,0 +1,243 @@
+'use client';
+
+import * as React from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Controller, useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import { getCaughtErrorMessage, getErrorMessage } from '@/lib/i18n/errors';
+import type { Translator } from '@/lib/i18n/translator';
+import { createPasswordSchema } from '@/lib/password';
+import { changePassword } from '@/server/change-password-action';
+
+import { PasswordStrength } from '@/components/password-strength';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { useTranslations } from '@/components/i18n-provider';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+// Los mensajes de validación dependen del idioma, así que el schema se arma con t()
+function createFormSchema(t: Translator) {
+  return z
+    .object({
+      currentPassword: z
+        .string()
+        .min(1, t('changePassword.currentPasswordRequired')),
+      newPassword: createPasswordSchema(t),
+      confirmPassword: z.string(),
+      revokeOtherSessions: z.boolean(),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+      message: t('password.mismatch'),
+      path: ['confirmPassword'],
+    })
+    .refine((data) => data.newPassword !== data.currentPassword, {
+      message: t('changePassword.sameAsCurrent'),
+      path: ['newPassword'],
+    });
+}
+
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
+// Campos del backend -> campos del formulario
+const serverFields: Record<string, keyof FormValues> = {
+  current_password: 'currentPassword',
+  new_password: 'newPassword',
+};
+
+export function ChangePasswordForm() {
+  const t = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+  const handleSessionExpired = useSessionExpiredHandler();
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+      revokeOtherSessions: true,
+    },
+  });
+
+  async function onSubmit(data: FormValues) {
+    try {
+      const result = await changePassword({
+        current_password: data.currentPassword,
+        new_password: data.newPassword,
+        revoke_other_sessions: data.revokeOtherSessions,
+      });
+
+      if (!result.success) {
+        if (result.code === 'INVALID_CURRENT_PASSWORD') {
+          form.setError('currentPassword', {
+            type: 'server',
+            message: getErrorMessage(t, result.code),
+          });
+          return;
+        }
+
+        const entries = Object.entries(result.fieldErrors);
+        for (const [field, message] of entries) {
+          const formField = serverFields[field];
+          if (formField) {
+            form.setError(formField, { type: 'server', message });
+          }
+        }
+        if (!entries.some(([field]) => serverFields[field])) {
+          toast.error(t('changePassword.failed'), {
+            description: getErrorMessage(t, result.code),
+          });
+        }
+        return;
+      }
+
+      toast.success(t('changePassword.success'), {
+        description: data.revokeOtherSessions
+          ? t('changePassword.othersSignedOut')
+          : undefined,
+      });
+      form.reset();
+    } catch (error) {
+      if (handleSessionExpired(error)) return;
+      toast.error(t('changePassword.failed'), {
+        description: getCaughtErrorMessage(t, error),
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('changePassword.title')}</CardTitle>
+        <CardDescription>{t('changePassword.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form id="form-change-password" onSubmit={form.handleSubmit(onSubmit)}>
+          <FieldGroup>
+            <Controller
+              name="currentPassword"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-change-password-current">
+                    {t('changePassword.currentPassword')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-change-password-current"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="current-password"
+                    className="border-gray-600"
+                  />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="newPassword"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-change-password-new">
+                    {t('changePassword.newPassword')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-change-password-new"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="new-password"
+                    className="border-gray-600"
+                  />
+                  <PasswordStrength password={field.value} />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="confirmPassword"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-change-password-confirm">
+                    {t('changePassword.confirmPassword')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-change-password-confirm"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="new-password"
+                    className="border-gray-600"
+                  />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="revokeOtherSessions"
+              control={form.control}
+              render={({ field }) => (
+                <Field orientation="horizontal">
+                  <Checkbox
+                    id="form-change-password-revoke"
+                    checked={field.value}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked === true)
+                    }
+                  />
+                  <FieldContent>
+                    <FieldLabel htmlFor="form-change-password-revoke">
+                      {t('changePassword.revokeOthers')}
+                    </FieldLabel>
+                    <FieldDescription>
+                      {t('changePassword.revokeOthersDescription')}
+                    </FieldDescription>
+                  </FieldContent>
+                </Field>
+              )}
+            />
+          </FieldGroup>
+        </form>
+      </CardContent>
+      <CardFooter>
+        <Button
+          type="submit"
+          form="form-change-password"
+          disabled={form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting
+            ? t('common.saving')
+            : t('changePassword.submit')}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  BarChart3,
+  Check,
+  LogOut,
+  PanelLeft,
+  RefreshCw,
+  SearchIcon,
+  UserRound,
+} from 'lucide-react';
+import { useTheme } from 'next-themes';
+import { toast } from 'sonner';
+import { useLogout } from '@/hooks/use-logout';
+import type { AdminUser } from '@/lib/api/admin';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import { NAV_SECTIONS } from '@/lib/navigation';
+import { THEME_OPTIONS } from '@/lib/theme';
+import { buildUsersHref, DEFAULT_USERS_QUERY } from '@/lib/users-query';
+import { refreshCurrentSession } from '@/server/refresh-session-action';
+import { searchUsers } from '@/server/search-users-action';
+
+import { usePermissionCheck } from '@/components/can';
+import { useTranslations } from '@/components/i18n-provider';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { Kbd, KbdGroup } from '@/components/ui/kbd';
+import { useSidebar } from '@/components/ui/sidebar';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+const USER_SEARCH_DEBOUNCE_MS = 300;
+const USER_SEARCH_MIN_LENGTH = 2;
+
+function subscribeToPlatform() {
+  return () => {};
+}
+
+// ⌘ en macOS/iOS, Ctrl en el resto (en el servidor se asume Ctrl)
+function useModifierKey() {
+  return React.useSyncExternalStore(
+    subscribeToPlatform,
+    () => (/Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘' : 'Ctrl'),
+    () => 'Ctrl'
+  );
+}
+
+export function CommandPalette() {
+  const router = useRouter();
+  const can = usePermissionCheck();
+  const logout = useLogout();
+  const t = useTranslations();
+  const handleSessionExpired = useSessionExpiredHandler();
+  const modifierKey = useModifierKey();
+  const { theme, setTheme } = useTheme();
+  const { toggleSidebar } = useSidebar();
+  const [open, setOpen] = React.useState(false);
+  const [search, setSearch] = React.useState('');
+  const [users, setUsers] = React.useState<AdminUser[]>([]);
+  const [isSearchingUsers, setIsSearchingUsers] = React.useState(false);
+  const searchTimeout = React.useRef<ReturnType<typeof setTimeout>>(undefined);
+  const latestSearch = React.useRef(0);
+
+  const canSearchUsers = can('users:read');
+  const navSections = NAV_SECTIONS.map((section) => ({
+    ...section,
+    items: section.items.filter(
+      (item) => !item.permission || can(item.permission)
+    ),
+  })).filter((section) => section.items.length > 0);
+
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  React.useEffect(() => () => clearTimeout(searchTimeout.current), []);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      clearTimeout(searchTimeout.current);
+      latestSearch.current++;
+      setSearch('');
+      setUsers([]);
+      setIsSearchingUsers(false);
+    }
+  };
+
+  // La búsqueda de usuarios va al backend con debounce; si llega una respuesta de una búsqueda
+  // anterior (el usuario siguió escribiendo) se descarta
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    if (!canSearchUsers) return;
+
+    clearTimeout(searchTimeout.current);
+    const requestId = ++latestSearch.current;
+    const q = value.trim();
+
+    if (q.length < USER_SEARCH_MIN_LENGTH) {
+      setUsers([]);
+      setIsSearchingUsers(false);
+      return;
+    }
+
+    setIsSearchingUsers(true);
+    searchTimeout.current = setTimeout(async () => {
+      try {
+        const result = await searchUsers(q);
+        if (requestId === latestSearch.current) setUsers(result);
+      } catch (error) {
+        if (handleSessionExpired(error)) return;
+        if (requestId !== latestSearch.current) return;
+        setUsers([]);
+        toast.error(t('commandPalette.searchUsersFailed'), {
+          description: getCaughtErrorMessage(t, error),
+        });
+      } finally {
+        if (requestId === latestSearch.current) setIsSearchingUsers(false);
+      }
+    }, USER_SEARCH_DEBOUNCE_MS);
+  };
+
+  const runCommand = (command: () => void) => {
+    handleOpenChange(false);
+    command();
+  };
+
+  const handleRefreshSession = async () => {
+    try {
+      await refreshCurrentSession();
+      toast.success(t('commandPalette.sessionRefreshed'));
+      router.refresh();
+    } catch (error) {
+      if (handleSessionExpired(error)) return;
+      toast.error(t('commandPalette.refreshSessionFailed'), {
+        description: getCaughtErrorMessage(t, error),
+      });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-muted-foreground ml-auto font-normal"
+        onClick={() => setOpen(true)}
+      >
+        <SearchIcon />
+        <span className="hidden sm:inline">{t('commandPalette.trigger')}</span>
+        <KbdGroup className="hidden sm:inline-flex">
+          <Kbd>{modifierKey}</Kbd>
+          <Kbd>K</Kbd>
+        </KbdGroup>
+      </Button>
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title={t('commandPalette.title')}
+        description={t('commandPalette.description')}
+      >
+        <CommandInput
+          placeholder={
+            canSearchUsers
+              ? t('commandPalette.placeholder')
+              : t('commandPalette.placeholderWithoutUsers')
+          }
+          value={search}
+          onValueChange={handleSearchChange}
+        />
+        <CommandList>
+          <CommandEmpty>
+            {isSearchingUsers
+              ? t('commandPalette.searchingUsers')
+              : t('commandPalette.empty')}
+          </CommandEmpty>
+          {users.length > 0 && (
+            <>
+              <CommandGroup heading={t('commandPalette.users')}>
+                {users.map((user) => (
+                  <CommandItem
+                    key={user.id}
+                    value={`user:${user.id}`}
+                    keywords={[search, user.email, user.full_name ?? '']}
+                    onSelect={() =>
+                      runCommand(() =>
+                        router.push(
+                          buildUsersHref(DEFAULT_USERS_QUERY, {
+                            q: user.email,
+                          })
+                        )
+                      )
+                    }
+                  >
+                    <UserRound />
+                    <span className="truncate">
+                      {user.full_name || user.email}
+                    </span>
+                    {user.full_name && (
+                      <span className="text-muted-foreground truncate text-xs">
+                        {user.email}
+                      </span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              <CommandSeparator />
+            </>
+          )}
+          {navSections.map((section) => (
+            <CommandGroup key={section.labelKey} heading={t(section.labelKey)}>
+              {section.items.map((item) => (
+                <CommandItem
+                  key={item.href}
+                  onSelect={() => runCommand(() => router.push(item.href))}
+                >
+                  <item.icon />
+                  {t(item.titleKey)}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ))}
+          <CommandSeparator />
+          <CommandGroup heading={t('commandPalette.actions')}>
+            {can('stats:read') && (
+              <CommandItem
+                onSelect={() => runCommand(() => router.push('/admin/stats'))}
+              >
+                <BarChart3 />
+                {t('commandPalette.showStats')}
+              </CommandItem>
+            )}
+            <CommandItem onSelect={() => runCommand(toggleSidebar)}>
+              <PanelLeft />
+              {t('commandPalette.toggleSidebar')}
+              <KbdGroup className="ml-auto">
+                <Kbd>{modifierKey}</Kbd>
+                <Kbd>B</Kbd>
+              </KbdGroup>
+            </CommandItem>
+            <CommandItem onSelect={() => runCommand(handleRefreshSession)}>
+              <RefreshCw />
+              {t('commandPalette.refreshSession')}
+            </CommandItem>
+            <CommandItem onSelect={() => runCommand(logout)}>
+              <LogOut />
+              {t('commandPalette.logout')}
+            </CommandItem>
+          </CommandGroup>
+          <CommandSeparator />
+          <CommandGroup heading={t('theme.title')}>
+            {THEME_OPTIONS.map((option) => (
+              <CommandItem
+                key={option.value}
+                value={`theme ${option.value}`}
+                keywords={[t('theme.title'), t(option.labelKey)]}
+                onSelect={() => runCommand(() => setTheme(option.value))}
+              >
+                <option.icon />
+                {t(option.labelKey)}
+                {theme === option.value && <Check className="ml-auto" />}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+        <div className="text-muted-foreground flex items-center gap-4 border-t px-3 py-2 text-xs">
+          <span className="flex items-center gap-1">
+            <KbdGroup>
+              <Kbd>↑</Kbd>
+              <Kbd>↓</Kbd>
+            </KbdGroup>
+            {t('commandPalette.hintNavigate')}
+          </span>
+          <span className="flex items-center gap-1">
+            <Kbd>↵</Kbd>
+            {t('commandPalette.hintSelect')}
+          </span>
+          <span className="flex items-center gap-1">
+            <Kbd>Esc</Kbd>
+            {t('commandPalette.hintClose')}
+          </span>
+        </div>
+      </CommandDialog>
+    </>
+  );
+}
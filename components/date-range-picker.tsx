@@ -0,0 +1,147 @@
+'use client';
+
+import * as React from 'react';
+import { CalendarIcon } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { enUS, es } from 'react-day-picker/locale';
+import {
+  countDays,
+  DATE_RANGE_PRESETS,
+  getPresetRange,
+  parseIsoDate,
+  toIsoDate,
+  type DateRangePreset,
+  type DateRangeValue,
+} from '@/lib/date-range';
+import type { Locale } from '@/lib/i18n/config';
+import { formatDate } from '@/lib/i18n/format';
+
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { useLocale, useTranslations } from '@/components/i18n-provider';
+
+// Idioma del calendario (nombres de meses y días, primer día de la semana)
+const CALENDAR_LOCALES = { en: enUS, es };
+
+function formatRange(range: DateRangeValue, locale: Locale) {
+  const formatOptions: Intl.DateTimeFormatOptions = {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  };
+  return `${formatDate(parseIsoDate(range.from), locale, formatOptions)} – ${formatDate(parseIsoDate(range.to), locale, formatOptions)}`;
+}
+
+export function DateRangePicker({
+  value,
+  preset,
+  onChange,
+  maxDays,
+  disabled,
+}: {
+  value: DateRangeValue;
+  preset: DateRangePreset | null;
+  onChange: (value: DateRangeValue, preset: DateRangePreset | null) => void;
+  maxDays?: number;
+  disabled?: boolean;
+}) {
+  const locale = useLocale();
+  const t = useTranslations();
+  const [open, setOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState<DateRange | undefined>();
+
+  const presetLabelKey = DATE_RANGE_PRESETS.find(
+    (option) => option.value === preset
+  )?.labelKey;
+  const draftRange =
+    draft?.from && draft.to
+      ? { from: toIsoDate(draft.from), to: toIsoDate(draft.to) }
+      : null;
+  const isDraftTooLong =
+    !!draftRange && maxDays !== undefined && countDays(draftRange) > maxDays;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setDraft({ from: parseIsoDate(value.from), to: parseIsoDate(value.to) });
+    }
+  };
+
+  const selectPreset = (nextPreset: DateRangePreset) => {
+    onChange(getPresetRange(nextPreset), nextPreset);
+    setOpen(false);
+  };
+
+  const applyDraft = () => {
+    if (!draftRange || isDraftTooLong) return;
+    onChange(draftRange, null);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className="justify-start font-normal"
+          disabled={disabled}
+        >
+          <CalendarIcon />
+          {presetLabelKey ? t(presetLabelKey) : formatRange(value, locale)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex flex-row gap-1 p-3 sm:flex-col">
+            {DATE_RANGE_PRESETS.map((option) => (
+              <Button
+                key={option.value}
+                variant={option.value === preset ? 'secondary' : 'ghost'}
+                size="sm"
+                className="justify-start"
+                onClick={() => selectPreset(option.value)}
+              >
+                {t(option.labelKey)}
+              </Button>
+            ))}
+          </div>
+          <Separator orientation="vertical" className="hidden sm:block" />
+          <div>
+            <Calendar
+              mode="range"
+              locale={CALENDAR_LOCALES[locale]}
+              numberOfMonths={2}
+              defaultMonth={draft?.from}
+              selected={draft}
+              onSelect={setDraft}
+              disabled={{ after: new Date() }}
+            />
+            <div className="flex items-center justify-end gap-2 border-t p-3">
+              {isDraftTooLong && (
+                <p className="text-destructive mr-auto text-xs">
+                  {t('dateRange.maxDays', { days: maxDays })}
+                </p>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                size="sm"
+                onClick={applyDraft}
+                disabled={!draftRange || isDraftTooLong}
+              >
+                {t('dateRange.apply')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
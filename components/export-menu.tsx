@@ -0,0 +1,50 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/export-formats';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useTranslations } from '@/components/i18n-provider';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (XLSX)',
+};
+
+function withFormat(href: string, format: ExportFormat) {
+  const [path, search = ''] = href.split('?');
+  const searchParams = new URLSearchParams(search);
+  searchParams.set('format', format);
+  return `${path}?${searchParams}`;
+}
+
+export function ExportMenu({ href }: { href: string }) {
+  const t = useTranslations();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download />
+          {t('export.trigger')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={withFormat(href, format)} download>
+              {FORMAT_LABELS[format]}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
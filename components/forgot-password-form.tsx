@@ -0,0 +1,147 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Controller, useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import type { Translator } from '@/lib/i18n/translator';
+import { requestPasswordReset } from '@/server/forgot-password-action';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Field,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { useTranslations } from '@/components/i18n-provider';
+
+// Los mensajes de validación dependen del idioma, así que el schema se arma con t()
+function createFormSchema(t: Translator) {
+  return z.object({
+    email: z.string().email(t('login.invalidEmail')),
+  });
+}
+
+type ForgotPasswordFormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
+export function ForgotPasswordForm() {
+  const t = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+  const [submittedEmail, setSubmittedEmail] = React.useState<string | null>(
+    null
+  );
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  async function onSubmit(data: ForgotPasswordFormValues) {
+    try {
+      await requestPasswordReset(data.email);
+      setSubmittedEmail(data.email);
+      form.reset();
+    } catch (error) {
+      toast.error(t('forgotPassword.failed'), {
+        description: getCaughtErrorMessage(t, error),
+      });
+    }
+  }
+
+  if (submittedEmail) {
+    return (
+      <Card className="w-full sm:max-w-md border border-primary">
+        <CardHeader>
+          <CardTitle>{t('forgotPassword.checkEmail')}</CardTitle>
+          <CardDescription>
+            {t('forgotPassword.checkEmailDescription', {
+              email: submittedEmail,
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardFooter className="gap-2">
+          <Button asChild>
+            <Link href="/">{t('common.backToLogin')}</Link>
+          </Button>
+          <Button variant="ghost" onClick={() => setSubmittedEmail(null)}>
+            {t('forgotPassword.sendAgain')}
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full sm:max-w-md border border-primary">
+      <CardHeader>
+        <CardTitle>{t('forgotPassword.title')}</CardTitle>
+        <CardDescription>{t('forgotPassword.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form id="form-forgot-password" onSubmit={form.handleSubmit(onSubmit)}>
+          <FieldGroup>
+            <Controller
+              name="email"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-forgot-password-email">
+                    {t('forgotPassword.email')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    id="form-forgot-password-email"
+                    type="email"
+                    aria-invalid={fieldState.invalid}
+                    placeholder="example@example.com"
+                    autoComplete="email"
+                    className="border-gray-600"
+                  />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+          </FieldGroup>
+        </form>
+      </CardContent>
+      <CardFooter className="flex-col items-start gap-4">
+        <Field orientation="horizontal">
+          <Button
+            type="submit"
+            form="form-forgot-password"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting
+              ? t('forgotPassword.submitting')
+              : t('forgotPassword.submit')}
+          </Button>
+        </Field>
+        <p className="text-muted-foreground text-sm">
+          {t('forgotPassword.remembered')}{' '}
+          <Link
+            href="/"
+            className="text-primary underline-offset-4 hover:underline"
+          >
+            {t('common.backToLogin')}
+          </Link>
+        </p>
+      </CardFooter>
+    </Card>
+  );
+}
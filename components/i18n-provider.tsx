@@ -0,0 +1,73 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { TIME_ZONE_COOKIE, type Locale } from '@/lib/i18n/config';
+import type { Messages } from '@/lib/i18n/messages/en';
+import { createTranslator, type Translator } from '@/lib/i18n/translator';
+
+const I18nContext = createContext<{
+  locale: Locale;
+  timeZone: string;
+  t: Translator;
+} | null>(null);
+
+// Guarda la zona horaria del navegador en una cookie para que el servidor formatee las fechas
+// en la misma zona. Si no coincidía con la usada en este render, se vuelve a renderizar una vez
+// (si el navegador rechaza la cookie, el server sigue usando DEFAULT_TIME_ZONE y no se reintenta)
+function useSyncTimeZone(timeZone: string) {
+  const router = useRouter();
+
+  useEffect(() => {
+    const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!browserTimeZone || browserTimeZone === timeZone) return;
+
+    const cookie = `${TIME_ZONE_COOKIE}=${encodeURIComponent(browserTimeZone)}`;
+    document.cookie = `${cookie}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+    if (document.cookie.split('; ').includes(cookie)) {
+      router.refresh();
+    }
+  }, [router, timeZone]);
+}
+
+export function I18nProvider({
+  locale,
+  timeZone,
+  messages,
+  children,
+}: {
+  locale: Locale;
+  timeZone: string;
+  messages: Messages;
+  children: React.ReactNode;
+}) {
+  useSyncTimeZone(timeZone);
+
+  const value = useMemo(
+    () => ({ locale, timeZone, t: createTranslator(messages) }),
+    [locale, timeZone, messages]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('i18n hooks must be used within an I18nProvider');
+  }
+  return context;
+}
+
+export function useTranslations(): Translator {
+  return useI18n().t;
+}
+
+export function useLocale(): Locale {
+  return useI18n().locale;
+}
+
+// Zona horaria para formatear fechas en componentes cliente (ver formatDateTime)
+export function useTimeZone(): string {
+  return useI18n().timeZone;
+}
@@ -1,11 +1,15 @@
 'use client';
 
 import * as React from 'react';
+import Link from 'next/link';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Controller, useForm } from 'react-hook-form';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import * as z from 'zod';
+import { getErrorMessage } from '@/lib/i18n/errors';
+import type { Translator } from '@/lib/i18n/translator';
+import { buildMfaVerifyPath } from '@/lib/routes';
 import { login } from '@/server/login-action';
 
 import { Button } from '@/components/ui/button';
@@ -17,6 +21,7 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import { useTranslations } from '@/components/i18n-provider';
 import {
   Field,
   FieldError,
@@ -26,14 +31,29 @@ import {
 import { Input } from '@/components/ui/input';
 import { InputGroup, InputGroupAddon } from '@/components/ui/input-group';
 
-const formSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters.'),
-});
+const PASSWORD_MIN_LENGTH = 6;
 
-export function LoginForm() {
+// Los mensajes de validación dependen del idioma, así que el schema se arma con t()
+function createFormSchema(t: Translator) {
+  return z.object({
+    email: z.string().email(t('login.invalidEmail')),
+    password: z
+      .string()
+      .min(
+        PASSWORD_MIN_LENGTH,
+        t('login.passwordTooShort', { min: PASSWORD_MIN_LENGTH })
+      ),
+  });
+}
+
+type LoginFormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
+// returnTo: ruta ya validada por la página (getSafeReturnTo), nunca el query param sin validar
+export function LoginForm({ returnTo }: { returnTo: string }) {
   const router = useRouter();
-  const form = useForm<z.infer<typeof formSchema>>({
+  const t = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+  const form = useForm<LoginFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       email: '',
@@ -41,19 +61,31 @@ export function LoginForm() {
     },
   });
 
-  async function onSubmit(data: z.infer<typeof formSchema>) {
+  async function onSubmit(data: LoginFormValues) {
     try {
       const result = await login(data.email, data.password);
-      sessionStorage.setItem('loginData', JSON.stringify(result));
-      toast.success('Login successful!', {
-        description: `Welcome, ${result.data.user.email}`,
-      });
+
+      if (!result.success) {
+        toast.error(t('login.failed'), {
+          description: getErrorMessage(t, result.code),
+        });
+        return;
+      }
+
       form.reset();
-      router.push('/dashboard');
-    } catch (error) {
-      toast.error('Login failed', {
-        description:
-          error instanceof Error ? error.message : 'Invalid email or password',
+
+      if (result.mfaRequired) {
+        router.push(buildMfaVerifyPath(returnTo));
+        return;
+      }
+
+      toast.success(t('login.success'), {
+        description: t('login.welcome', { email: result.user.email }),
+      });
+      router.push(returnTo);
+    } catch {
+      toast.error(t('login.failed'), {
+        description: t('errors.UNKNOWN'),
       });
     }
   }
@@ -61,8 +93,8 @@ export function LoginForm() {
   return (
     <Card className="w-full sm:max-w-md border border-primary">
       <CardHeader>
-        <CardTitle>Login</CardTitle>
-        <CardDescription>Login to your account</CardDescription>
+        <CardTitle>{t('login.title')}</CardTitle>
+        <CardDescription>{t('login.description')}</CardDescription>
       </CardHeader>
       <CardContent>
         <form id="form-rhf-demo" onSubmit={form.handleSubmit(onSubmit)}>
@@ -72,7 +104,9 @@ export function LoginForm() {
               control={form.control}
               render={({ field, fieldState }) => (
                 <Field data-invalid={fieldState.invalid}>
-                  <FieldLabel htmlFor="form-rhf-demo-email">Email</FieldLabel>
+                  <FieldLabel htmlFor="form-rhf-demo-email">
+                    {t('login.email')}
+                  </FieldLabel>
                   <Input
                     {...field}
                     id="form-rhf-demo-email"
@@ -94,7 +128,7 @@ export function LoginForm() {
               render={({ field, fieldState }) => (
                 <Field data-invalid={fieldState.invalid}>
                   <FieldLabel htmlFor="form-rhf-demo-password">
-                    Password
+                    {t('login.password')}
                   </FieldLabel>
                   <InputGroup>
                     <Input
@@ -116,12 +150,27 @@ export function LoginForm() {
           </FieldGroup>
         </form>
       </CardContent>
-      <CardFooter>
+      <CardFooter className="flex-col items-start gap-4">
         <Field orientation="horizontal">
           <Button type="submit" form="form-rhf-demo">
-            Submit
+            {t('login.submit')}
           </Button>
         </Field>
+        <Link
+          href="/forgot-password"
+          className="text-muted-foreground text-sm underline-offset-4 hover:underline"
+        >
+          {t('login.forgotPassword')}
+        </Link>
+        <p className="text-muted-foreground text-sm">
+          {t('login.noAccount')}{' '}
+          <Link
+            href="/register"
+            className="text-primary underline-offset-4 hover:underline"
+          >
+            {t('login.register')}
+          </Link>
+        </p>
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,408 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { Copy, Download, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MfaStatus } from '@/lib/api/mfa';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import type { Translator } from '@/lib/i18n/translator';
+import {
+  confirmMfaEnrollment,
+  disableMfa,
+  startMfaEnrollment,
+} from '@/server/mfa-actions';
+
+import { TOTP_CODE_LENGTH, TotpCodeInput } from '@/components/totp-code-input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { useTranslations } from '@/components/i18n-provider';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+type EnrollmentState =
+  | { step: 'idle' }
+  | { step: 'verify'; secret: string; qrCodeDataUrl: string }
+  | { step: 'recovery-codes'; recoveryCodes: string[] };
+
+function downloadRecoveryCodes(recoveryCodes: string[], t: Translator) {
+  const blob = new Blob(
+    [
+      `${t('mfa.recoveryCodesFileTitle')}\n`,
+      `${t('mfa.recoveryCodesFileHint')}\n\n`,
+      recoveryCodes.join('\n'),
+      '\n',
+    ],
+    { type: 'text/plain' }
+  );
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'recovery-codes.txt';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function RecoveryCodes({
+  recoveryCodes,
+  onDone,
+}: {
+  recoveryCodes: string[];
+  onDone: () => void;
+}) {
+  const t = useTranslations();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success(t('mfa.codesCopied'));
+    } catch {
+      toast.error(t('mfa.copyFailed'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('mfa.recoveryCodesTitle')}</CardTitle>
+        <CardDescription>{t('mfa.recoveryCodesDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="bg-muted grid grid-cols-2 gap-2 rounded-md p-4 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter className="flex-wrap gap-2">
+        <Button variant="outline" onClick={handleCopy}>
+          <Copy />
+          {t('mfa.copy')}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => downloadRecoveryCodes(recoveryCodes, t)}
+        >
+          <Download />
+          {t('mfa.download')}
+        </Button>
+        <Button onClick={onDone}>{t('mfa.savedCodes')}</Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+function DisableMfaDialog({ onDisabled }: { onDisabled: () => void }) {
+  const t = useTranslations();
+  const handleSessionExpired = useSessionExpiredHandler();
+  const [open, setOpen] = React.useState(false);
+  const [password, setPassword] = React.useState('');
+  const [code, setCode] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setPassword('');
+      setCode('');
+      setError(null);
+    }
+  };
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!password || code.length !== TOTP_CODE_LENGTH) {
+      setError(t('mfa.disableMissingFields'));
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await disableMfa(password, code);
+      if (!result.success) {
+        setError(t('mfa.disableInvalid'));
+        setCode('');
+        return;
+      }
+      handleOpenChange(false);
+      toast.success(t('mfa.disabledToast'));
+      onDisabled();
+    } catch (err) {
+      if (handleSessionExpired(err)) return;
+      toast.error(t('mfa.disableFailed'), {
+        description: getCaughtErrorMessage(t, err),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="destructive">
+          <ShieldOff />
+          {t('mfa.disable')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('mfa.disableTitle')}</DialogTitle>
+          <DialogDescription>{t('mfa.disableDescription')}</DialogDescription>
+        </DialogHeader>
+        <form id="form-disable-mfa" onSubmit={onSubmit}>
+          <FieldGroup>
+            <Field data-invalid={!!error}>
+              <FieldLabel htmlFor="form-disable-mfa-password">
+                {t('mfa.currentPassword')}
+              </FieldLabel>
+              <Input
+                id="form-disable-mfa-password"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoComplete="current-password"
+                placeholder="••••••••"
+              />
+            </Field>
+            <Field data-invalid={!!error}>
+              <FieldLabel htmlFor="form-disable-mfa-code">
+                {t('mfa.authenticationCode')}
+              </FieldLabel>
+              <TotpCodeInput
+                id="form-disable-mfa-code"
+                value={code}
+                onChange={setCode}
+                disabled={isSubmitting}
+                invalid={!!error}
+              />
+              {error && <FieldError>{error}</FieldError>}
+            </Field>
+          </FieldGroup>
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            type="submit"
+            form="form-disable-mfa"
+            variant="destructive"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? t('mfa.disabling') : t('mfa.disable')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function MfaSettings({ status }: { status: MfaStatus }) {
+  const router = useRouter();
+  const t = useTranslations();
+  const handleSessionExpired = useSessionExpiredHandler();
+  const [enrollment, setEnrollment] = React.useState<EnrollmentState>({
+    step: 'idle',
+  });
+  const [code, setCode] = React.useState('');
+  const [codeError, setCodeError] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    try {
+      const { secret, qrCodeDataUrl } = await startMfaEnrollment();
+      setEnrollment({ step: 'verify', secret, qrCodeDataUrl });
+    } catch (err) {
+      if (handleSessionExpired(err)) return;
+      toast.error(t('mfa.startFailed'), {
+        description: getCaughtErrorMessage(t, err),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    if (value.length !== TOTP_CODE_LENGTH) {
+      setCodeError(t('mfa.enterCode', { length: TOTP_CODE_LENGTH }));
+      return;
+    }
+
+    setIsLoading(true);
+    setCodeError(null);
+    try {
+      const result = await confirmMfaEnrollment(value);
+      if (!result.success) {
+        setCodeError(t('mfa.invalidCode'));
+        setCode('');
+        return;
+      }
+      setEnrollment({
+        step: 'recovery-codes',
+        recoveryCodes: result.recoveryCodes,
+      });
+      toast.success(t('mfa.enabledToast'));
+    } catch (err) {
+      if (handleSessionExpired(err)) return;
+      toast.error(t('mfa.enableFailed'), {
+        description: getCaughtErrorMessage(t, err),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFinish = () => {
+    setEnrollment({ step: 'idle' });
+    setCode('');
+    router.refresh();
+  };
+
+  if (enrollment.step === 'recovery-codes') {
+    return (
+      <RecoveryCodes
+        recoveryCodes={enrollment.recoveryCodes}
+        onDone={handleFinish}
+      />
+    );
+  }
+
+  if (enrollment.step === 'verify') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('mfa.setupTitle')}</CardTitle>
+          <CardDescription>
+            {t('mfa.setupDescription', { length: TOTP_CODE_LENGTH })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-2">
+          <div className="flex flex-col items-center gap-3">
+            {/* Data URL generado localmente: no pasa por el optimizador de imágenes */}
+            <Image
+              src={enrollment.qrCodeDataUrl}
+              alt={t('mfa.qrCodeAlt')}
+              width={224}
+              height={224}
+              unoptimized
+              className="rounded-md border bg-white"
+            />
+            <p className="text-muted-foreground text-center text-xs">
+              {t('mfa.manualKey')}
+              <br />
+              <code className="text-foreground break-all font-mono">
+                {enrollment.secret}
+              </code>
+            </p>
+          </div>
+          <form
+            id="form-enable-mfa"
+            className="flex flex-col justify-center"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleVerify(code);
+            }}
+          >
+            <Field data-invalid={!!codeError}>
+              <FieldLabel htmlFor="form-enable-mfa-code">
+                {t('mfa.verificationCode')}
+              </FieldLabel>
+              <TotpCodeInput
+                id="form-enable-mfa-code"
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerify}
+                disabled={isLoading}
+                invalid={!!codeError}
+                autoFocus
+              />
+              <FieldDescription>{t('mfa.codeHint')}</FieldDescription>
+              {codeError && <FieldError>{codeError}</FieldError>}
+            </Field>
+          </form>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" form="form-enable-mfa" disabled={isLoading}>
+            {isLoading ? t('common.verifying') : t('mfa.enable')}
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setEnrollment({ step: 'idle' });
+              setCode('');
+              setCodeError(null);
+            }}
+          >
+            {t('common.cancel')}
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>{t('mfa.title')}</CardTitle>
+          <Badge variant={status.enabled ? 'default' : 'secondary'}>
+            {status.enabled ? t('mfa.enabled') : t('mfa.disabled')}
+          </Badge>
+        </div>
+        <CardDescription>
+          {status.enabled
+            ? t('mfa.enabledDescription')
+            : t('mfa.disabledDescription')}
+        </CardDescription>
+      </CardHeader>
+      {status.enabled && status.recovery_codes_remaining !== undefined && (
+        <CardContent>
+          <p className="text-muted-foreground text-sm">
+            {t('mfa.recoveryCodesRemaining', {
+              count: status.recovery_codes_remaining,
+            })}
+          </p>
+        </CardContent>
+      )}
+      <CardFooter>
+        {status.enabled ? (
+          <DisableMfaDialog onDisabled={() => router.refresh()} />
+        ) : (
+          <Button onClick={handleStart} disabled={isLoading}>
+            <ShieldCheck />
+            {isLoading ? t('mfa.starting') : t('mfa.enable')}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import { buildLoginPath } from '@/lib/routes';
+import { verifyMfaLogin } from '@/server/verify-mfa-action';
+
+import { TOTP_CODE_LENGTH, TotpCodeInput } from '@/components/totp-code-input';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { useTranslations } from '@/components/i18n-provider';
+
+export function MfaVerifyForm({ returnTo }: { returnTo: string }) {
+  const router = useRouter();
+  const t = useTranslations();
+  const [mode, setMode] = React.useState<'totp' | 'recovery'>('totp');
+  const [code, setCode] = React.useState('');
+  const [recoveryCode, setRecoveryCode] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  async function submit(
+    credential: { code: string } | { recoveryCode: string }
+  ) {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await verifyMfaLogin(credential);
+
+      if (!result.success) {
+        if (result.reason === 'expired') {
+          toast.error(t('mfaVerify.expired'), {
+            description: t('mfaVerify.expiredDescription'),
+          });
+          router.push(buildLoginPath(returnTo));
+          return;
+        }
+        setError(
+          mode === 'totp'
+            ? t('mfaVerify.invalidCode')
+            : t('mfaVerify.invalidRecoveryCode')
+        );
+        setCode('');
+        return;
+      }
+
+      toast.success(t('login.success'), {
+        description: t('login.welcome', { email: result.session.user.email }),
+      });
+      router.push(returnTo);
+    } catch (err) {
+      toast.error(t('mfaVerify.failed'), {
+        description: getCaughtErrorMessage(t, err),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (mode === 'totp') {
+      if (code.length !== TOTP_CODE_LENGTH) {
+        setError(t('mfaVerify.enterCode', { length: TOTP_CODE_LENGTH }));
+        return;
+      }
+      submit({ code });
+    } else {
+      if (!recoveryCode.trim()) {
+        setError(t('mfaVerify.enterRecoveryCode'));
+        return;
+      }
+      submit({ recoveryCode: recoveryCode.trim() });
+    }
+  }
+
+  function toggleMode() {
+    setMode(mode === 'totp' ? 'recovery' : 'totp');
+    setError(null);
+  }
+
+  return (
+    <Card className="w-full sm:max-w-md border border-primary">
+      <CardHeader>
+        <CardTitle>{t('mfaVerify.title')}</CardTitle>
+        <CardDescription>
+          {mode === 'totp'
+            ? t('mfaVerify.totpDescription', { length: TOTP_CODE_LENGTH })
+            : t('mfaVerify.recoveryDescription')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form id="form-mfa-verify" onSubmit={onSubmit}>
+          {mode === 'totp' ? (
+            <Field data-invalid={!!error}>
+              <FieldLabel htmlFor="form-mfa-verify-code" className="sr-only">
+                {t('mfaVerify.code')}
+              </FieldLabel>
+              <TotpCodeInput
+                id="form-mfa-verify-code"
+                value={code}
+                onChange={setCode}
+                onComplete={(value) => submit({ code: value })}
+                disabled={isSubmitting}
+                invalid={!!error}
+                autoFocus
+              />
+              {error && <FieldError>{error}</FieldError>}
+            </Field>
+          ) : (
+            <Field data-invalid={!!error}>
+              <FieldLabel htmlFor="form-mfa-verify-recovery">
+                {t('mfaVerify.recoveryCode')}
+              </FieldLabel>
+              <Input
+                id="form-mfa-verify-recovery"
+                value={recoveryCode}
+                onChange={(event) => setRecoveryCode(event.target.value)}
+                aria-invalid={!!error}
+                placeholder="xxxx-xxxx"
+                autoComplete="off"
+                className="border-gray-600 font-mono"
+              />
+              <FieldDescription>
+                {t('mfaVerify.recoveryCodeHint')}
+              </FieldDescription>
+              {error && <FieldError>{error}</FieldError>}
+            </Field>
+          )}
+        </form>
+      </CardContent>
+      <CardFooter className="flex-col items-start gap-4">
+        <Field orientation="horizontal">
+          <Button type="submit" form="form-mfa-verify" disabled={isSubmitting}>
+            {isSubmitting ? t('common.verifying') : t('mfaVerify.submit')}
+          </Button>
+          <Button type="button" variant="ghost" onClick={toggleMode}>
+            {mode === 'totp'
+              ? t('mfaVerify.useRecoveryCode')
+              : t('mfaVerify.useAuthenticator')}
+          </Button>
+        </Field>
+        <Link
+          href={buildLoginPath(returnTo)}
+          className="text-muted-foreground text-sm underline-offset-4 hover:underline"
+        >
+          {t('common.backToLogin')}
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { Check, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import {
+  getPasswordStrength,
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_REQUIREMENTS,
+  type PasswordStrength as Strength,
+} from '@/lib/password';
+import { cn } from '@/lib/utils';
+
+import { useTranslations } from '@/components/i18n-provider';
+
+const strengthColors: Record<Strength, string> = {
+  weak: '[&>[data-slot=progress-indicator]]:bg-destructive',
+  fair: '[&>[data-slot=progress-indicator]]:bg-amber-500',
+  good: '[&>[data-slot=progress-indicator]]:bg-emerald-500',
+  strong: '[&>[data-slot=progress-indicator]]:bg-emerald-600',
+};
+
+export function PasswordStrength({ password }: { password: string }) {
+  const t = useTranslations();
+  const { score, strength } = getPasswordStrength(password);
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex items-center gap-3">
+        <Progress
+          value={(score / PASSWORD_REQUIREMENTS.length) * 100}
+          className={cn('h-1.5', strengthColors[strength])}
+        />
+        <span className="text-muted-foreground w-14 text-right text-xs">
+          {password ? t(`password.strength.${strength}`) : ''}
+        </span>
+      </div>
+      <ul className="grid gap-1 text-xs sm:grid-cols-2">
+        {PASSWORD_REQUIREMENTS.map((requirement) => {
+          const passed = requirement.test(password);
+          return (
+            <li
+              key={requirement.id}
+              className={cn(
+                'flex items-center gap-1.5',
+                passed ? 'text-emerald-600' : 'text-muted-foreground'
+              )}
+            >
+              {passed ? <Check className="size-3" /> : <X className="size-3" />}
+              {t(requirement.labelKey, { min: PASSWORD_MIN_LENGTH })}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import * as React from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Controller, useForm } from 'react-hook-form';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import type { ProfileData } from '@/lib/api/schemas';
+import { getCaughtErrorMessage, getErrorMessage } from '@/lib/i18n/errors';
+import { formatDateTime } from '@/lib/i18n/format';
+import { getStatusLabel } from '@/lib/i18n/labels';
+import type { Translator } from '@/lib/i18n/translator';
+import { updateProfile } from '@/server/update-profile-action';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useLocale,
+  useTimeZone,
+  useTranslations,
+} from '@/components/i18n-provider';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+const FULL_NAME_MAX_LENGTH = 100;
+const BIO_MAX_LENGTH = 500;
+
+// Los mensajes de validación dependen del idioma, así que el schema se arma con t()
+function createFormSchema(t: Translator) {
+  return z.object({
+    full_name: z
+      .string()
+      .trim()
+      .max(
+        FULL_NAME_MAX_LENGTH,
+        t('profile.fullNameTooLong', { max: FULL_NAME_MAX_LENGTH })
+      ),
+    bio: z
+      .string()
+      .trim()
+      .max(BIO_MAX_LENGTH, t('profile.bioTooLong', { max: BIO_MAX_LENGTH })),
+  });
+}
+
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
+function toFormValues(profile: ProfileData): FormValues {
+  return {
+    full_name: profile.full_name ?? '',
+    bio: profile.bio ?? '',
+  };
+}
+
+function ProfilePreview({ profile }: { profile: ProfileData }) {
+  const t = useTranslations();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('profile.previewTitle')}</CardTitle>
+        <CardDescription>{t('profile.previewDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">
+            {t('profile.fullName')}
+          </p>
+          <p className="text-sm">{profile.full_name || t('common.notSet')}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">
+            {t('profile.bio')}
+          </p>
+          <p className="text-sm whitespace-pre-line">
+            {profile.bio || t('common.notSet')}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">
+            {t('profile.status')}
+          </p>
+          <p className="text-sm">
+            {profile.status
+              ? getStatusLabel(t, profile.status)
+              : t('common.notSet')}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ProfileForm({ profile }: { profile: ProfileData }) {
+  const router = useRouter();
+  const t = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+  const locale = useLocale();
+  const timeZone = useTimeZone();
+  const handleSessionExpired = useSessionExpiredHandler();
+  // Última versión confirmada por el backend (su updated_at es la base para detectar conflictos)
+  const [savedProfile, setSavedProfile] = React.useState(profile);
+  // Otras partes de la página (ej: el AvatarUploader) también modifican el perfil y refrescan la
+  // página: si el server trae una versión nueva se adopta como base, sin tocar lo que se está editando
+  const [serverUpdatedAt, setServerUpdatedAt] = React.useState(
+    profile.updated_at
+  );
+  if (profile.updated_at !== serverUpdatedAt) {
+    setServerUpdatedAt(profile.updated_at);
+    setSavedProfile(profile);
+  }
+  const [conflict, setConflict] = React.useState<ProfileData | null>(null);
+  const [isPending, startTransition] = React.useTransition();
+  const [optimisticProfile, setOptimisticProfile] = React.useOptimistic(
+    savedProfile,
+    (current, values: FormValues) => ({
+      ...current,
+      full_name: values.full_name || null,
+      bio: values.bio || null,
+    })
+  );
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(profile),
+  });
+
+  function save(values: FormValues, expectedUpdatedAt: string | null) {
+    startTransition(async () => {
+      setOptimisticProfile(values);
+      try {
+        const result = await updateProfile({
+          full_name: values.full_name || null,
+          bio: values.bio || null,
+          expected_updated_at: expectedUpdatedAt,
+        });
+
+        if (result.success) {
+          setSavedProfile(result.profile);
+          setConflict(null);
+          form.reset(toFormValues(result.profile));
+          toast.success(t('profile.updated'));
+          router.refresh();
+          return;
+        }
+
+        if (result.reason === 'conflict') {
+          setConflict(result.profile);
+          return;
+        }
+
+        for (const [field, message] of Object.entries(result.fieldErrors)) {
+          if (field === 'full_name' || field === 'bio') {
+            form.setError(field, { type: 'server', message });
+          }
+        }
+        toast.error(t('profile.updateFailed'), {
+          description: getErrorMessage(t, result.code),
+        });
+      } catch (error) {
+        if (handleSessionExpired(error)) return;
+        toast.error(t('profile.updateFailed'), {
+          description: getCaughtErrorMessage(t, error),
+        });
+      }
+    });
+  }
+
+  function onSubmit(values: FormValues) {
+    save(values, savedProfile.updated_at);
+  }
+
+  // Descarta los cambios locales y carga la versión guardada desde el otro tab
+  function loadLatest() {
+    if (!conflict) return;
+    setSavedProfile(conflict);
+    form.reset(toFormValues(conflict));
+    setConflict(null);
+  }
+
+  // Guarda los cambios locales sobre la versión más reciente (el usuario lo confirmó)
+  function overwrite() {
+    if (!conflict) return;
+    setSavedProfile(conflict);
+    save(form.getValues(), conflict.updated_at);
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('profile.editTitle')}</CardTitle>
+          <CardDescription>{t('profile.editDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {conflict && (
+            <Alert variant="destructive">
+              <AlertTitle>{t('profile.conflictTitle')}</AlertTitle>
+              <AlertDescription>
+                <p>
+                  {conflict.updated_at
+                    ? t('profile.conflictDescriptionAt', {
+                        date: formatDateTime(
+                          conflict.updated_at,
+                          locale,
+                          timeZone
+                        ),
+                      })
+                    : t('profile.conflictDescription')}
+                </p>
+                <div className="mt-2 flex gap-2">
+                  <Button size="sm" variant="outline" onClick={loadLatest}>
+                    {t('profile.loadLatest')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={overwrite}
+                    disabled={isPending}
+                  >
+                    {t('profile.overwrite')}
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+          <form id="form-profile" onSubmit={form.handleSubmit(onSubmit)}>
+            <FieldGroup>
+              <Controller
+                name="full_name"
+                control={form.control}
+                render={({ field, fieldState }) => (
+                  <Field data-invalid={fieldState.invalid}>
+                    <FieldLabel htmlFor="form-profile-full-name">
+                      {t('profile.fullName')}
+                    </FieldLabel>
+                    <Input
+                      {...field}
+                      id="form-profile-full-name"
+                      aria-invalid={fieldState.invalid}
+                      autoComplete="name"
+                      className="border-gray-600"
+                    />
+                    {fieldState.invalid && (
+                      <FieldError errors={[fieldState.error]} />
+                    )}
+                  </Field>
+                )}
+              />
+              <Controller
+                name="bio"
+                control={form.control}
+                render={({ field, fieldState }) => (
+                  <Field data-invalid={fieldState.invalid}>
+                    <FieldLabel htmlFor="form-profile-bio">
+                      {t('profile.bio')}
+                    </FieldLabel>
+                    <Textarea
+                      {...field}
+                      id="form-profile-bio"
+                      aria-invalid={fieldState.invalid}
+                      rows={5}
+                      className="border-gray-600"
+                    />
+                    <FieldDescription>
+                      {field.value.length}/{BIO_MAX_LENGTH}
+                    </FieldDescription>
+                    {fieldState.invalid && (
+                      <FieldError errors={[fieldState.error]} />
+                    )}
+                  </Field>
+                )}
+              />
+            </FieldGroup>
+          </form>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button
+            type="submit"
+            form="form-profile"
+            disabled={isPending || !!conflict}
+          >
+            {isPending ? t('common.saving') : t('profile.save')}
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => form.reset(toFormValues(savedProfile))}
+            disabled={isPending}
+          >
+            {t('profile.reset')}
+          </Button>
+        </CardFooter>
+      </Card>
+      <ProfilePreview profile={optimisticProfile} />
+    </div>
+  );
+}
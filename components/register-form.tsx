@@ -0,0 +1,257 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Controller, useForm } from 'react-hook-form';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import { getErrorMessage } from '@/lib/i18n/errors';
+import type { Translator } from '@/lib/i18n/translator';
+import { createPasswordSchema } from '@/lib/password';
+import { register } from '@/server/register-action';
+
+import { useTranslations } from '@/components/i18n-provider';
+import { PasswordStrength } from '@/components/password-strength';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+
+// Los mensajes de validación dependen del idioma, así que el schema se arma con t()
+function createFormSchema(t: Translator) {
+  return z
+    .object({
+      fullName: z.string().trim().max(100, t('register.fullNameTooLong')),
+      email: z.string().email(t('login.invalidEmail')),
+      password: createPasswordSchema(t),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+      message: t('password.mismatch'),
+      path: ['confirmPassword'],
+    });
+}
+
+type RegisterFormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
+// Campos del backend (RegisterInput) -> campos del formulario
+const SERVER_FIELDS = {
+  email: 'email',
+  password: 'password',
+  full_name: 'fullName',
+} as const;
+
+function isServerField(field: string): field is keyof typeof SERVER_FIELDS {
+  return Object.hasOwn(SERVER_FIELDS, field);
+}
+
+export function RegisterForm() {
+  const router = useRouter();
+  const t = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+  const form = useForm<RegisterFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      fullName: '',
+      email: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  async function onSubmit(data: RegisterFormValues) {
+    try {
+      const result = await register({
+        email: data.email,
+        password: data.password,
+        full_name: data.fullName || undefined,
+      });
+
+      if (!result.success) {
+        if (result.reason === 'email_taken') {
+          form.setError('email', {
+            type: 'server',
+            message: t('errors.EMAIL_ALREADY_REGISTERED'),
+          });
+          return;
+        }
+
+        for (const [field, message] of Object.entries(result.fieldErrors)) {
+          if (isServerField(field)) {
+            form.setError(SERVER_FIELDS[field], {
+              type: 'server',
+              message,
+            });
+          }
+        }
+        toast.error(t('register.failed'), {
+          description: getErrorMessage(t, result.code),
+        });
+        return;
+      }
+
+      form.reset();
+
+      if (result.isAuthenticated) {
+        toast.success(t('register.success'), {
+          description: t('register.welcome', { email: result.user.email }),
+        });
+        router.push('/dashboard');
+      } else {
+        toast.success(t('register.success'), {
+          description: t('register.loginNow'),
+        });
+        router.push('/');
+      }
+    } catch {
+      toast.error(t('register.failed'), {
+        description: t('errors.UNKNOWN'),
+      });
+    }
+  }
+
+  return (
+    <Card className="w-full sm:max-w-md border border-primary">
+      <CardHeader>
+        <CardTitle>{t('register.title')}</CardTitle>
+        <CardDescription>{t('register.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form id="form-register" onSubmit={form.handleSubmit(onSubmit)}>
+          <FieldGroup>
+            <Controller
+              name="fullName"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-register-full-name">
+                    {t('register.fullName')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    id="form-register-full-name"
+                    aria-invalid={fieldState.invalid}
+                    placeholder={t('register.fullNamePlaceholder')}
+                    autoComplete="name"
+                    className="border-gray-600"
+                  />
+                  <FieldDescription>{t('common.optional')}</FieldDescription>
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="email"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-register-email">
+                    {t('register.email')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    id="form-register-email"
+                    type="email"
+                    aria-invalid={fieldState.invalid}
+                    placeholder="example@example.com"
+                    autoComplete="email"
+                    className="border-gray-600"
+                  />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="password"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-register-password">
+                    {t('register.password')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-register-password"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="new-password"
+                    className="border-gray-600"
+                  />
+                  <PasswordStrength password={field.value} />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="confirmPassword"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-register-confirm-password">
+                    {t('register.confirmPassword')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-register-confirm-password"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="new-password"
+                    className="border-gray-600"
+                  />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+          </FieldGroup>
+        </form>
+      </CardContent>
+      <CardFooter className="flex-col items-start gap-4">
+        <Field orientation="horizontal">
+          <Button
+            type="submit"
+            form="form-register"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting
+              ? t('register.submitting')
+              : t('register.submit')}
+          </Button>
+        </Field>
+        <p className="text-muted-foreground text-sm">
+          {t('register.haveAccount')}{' '}
+          <Link
+            href="/"
+            className="text-primary underline-offset-4 hover:underline"
+          >
+            {t('register.login')}
+          </Link>
+        </p>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Controller, useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import type { Translator } from '@/lib/i18n/translator';
+import { createPasswordSchema } from '@/lib/password';
+import {
+  resetPassword,
+  type ResetPasswordResult,
+} from '@/server/reset-password-action';
+
+import { PasswordStrength } from '@/components/password-strength';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Field,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { useTranslations } from '@/components/i18n-provider';
+
+// Los mensajes de validación dependen del idioma, así que el schema se arma con t()
+function createFormSchema(t: Translator) {
+  return z
+    .object({
+      password: createPasswordSchema(t),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+      message: t('password.mismatch'),
+      path: ['confirmPassword'],
+    });
+}
+
+type ResetPasswordFormValues = z.infer<ReturnType<typeof createFormSchema>>;
+
+type InvalidLinkReason = Extract<
+  ResetPasswordResult,
+  { success: false }
+>['reason'];
+
+export function InvalidResetLink({ reason }: { reason: InvalidLinkReason }) {
+  const t = useTranslations();
+
+  return (
+    <Card className="w-full sm:max-w-md border border-primary">
+      <CardHeader>
+        <CardTitle>
+          {reason === 'expired'
+            ? t('resetPassword.linkExpired')
+            : t('resetPassword.linkInvalid')}
+        </CardTitle>
+        <CardDescription>
+          {reason === 'expired'
+            ? t('resetPassword.linkExpiredDescription')
+            : t('resetPassword.linkInvalidDescription')}
+        </CardDescription>
+      </CardHeader>
+      <CardFooter>
+        <Button asChild>
+          <Link href="/forgot-password">
+            {t('resetPassword.requestNewLink')}
+          </Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export function ResetPasswordForm({ token }: { token: string }) {
+  const t = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+  const [result, setResult] = React.useState<ResetPasswordResult | null>(null);
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  async function onSubmit(data: ResetPasswordFormValues) {
+    try {
+      setResult(await resetPassword(token, data.password));
+      form.reset();
+    } catch (error) {
+      toast.error(t('resetPassword.failed'), {
+        description: getCaughtErrorMessage(t, error),
+      });
+    }
+  }
+
+  if (result && !result.success) {
+    return <InvalidResetLink reason={result.reason} />;
+  }
+
+  if (result?.success) {
+    return (
+      <Card className="w-full sm:max-w-md border border-primary">
+        <CardHeader>
+          <CardTitle>{t('resetPassword.success')}</CardTitle>
+          <CardDescription>
+            {t('resetPassword.successDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button asChild>
+            <Link href="/">{t('resetPassword.goToLogin')}</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full sm:max-w-md border border-primary">
+      <CardHeader>
+        <CardTitle>{t('resetPassword.title')}</CardTitle>
+        <CardDescription>{t('resetPassword.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form id="form-reset-password" onSubmit={form.handleSubmit(onSubmit)}>
+          <FieldGroup>
+            <Controller
+              name="password"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-reset-password-password">
+                    {t('resetPassword.newPassword')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-reset-password-password"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="new-password"
+                    className="border-gray-600"
+                  />
+                  <PasswordStrength password={field.value} />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+            <Controller
+              name="confirmPassword"
+              control={form.control}
+              render={({ field, fieldState }) => (
+                <Field data-invalid={fieldState.invalid}>
+                  <FieldLabel htmlFor="form-reset-password-confirm">
+                    {t('resetPassword.confirmPassword')}
+                  </FieldLabel>
+                  <Input
+                    {...field}
+                    type="password"
+                    placeholder="••••••••"
+                    id="form-reset-password-confirm"
+                    aria-invalid={fieldState.invalid}
+                    autoComplete="new-password"
+                    className="border-gray-600"
+                  />
+                  {fieldState.invalid && (
+                    <FieldError errors={[fieldState.error]} />
+                  )}
+                </Field>
+              )}
+            />
+          </FieldGroup>
+        </form>
+      </CardContent>
+      <CardFooter>
+        <Field orientation="horizontal">
+          <Button
+            type="submit"
+            form="form-reset-password"
+            disabled={form.formState.isSubmitting}
+          >
+            {form.formState.isSubmitting
+              ? t('common.saving')
+              : t('resetPassword.submit')}
+          </Button>
+        </Field>
+      </CardFooter>
+    </Card>
+  );
+}
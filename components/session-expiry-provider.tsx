@@ -0,0 +1,66 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { buildLoginPath } from '@/lib/routes';
+import { isSessionExpiredError } from '@/lib/session-expired';
+
+import { useTranslations } from '@/components/i18n-provider';
+
+// Un solo toast aunque fallen varias acciones a la vez
+const SESSION_EXPIRED_TOAST_ID = 'session-expired';
+
+type SessionExpiredHandler = (error: unknown) => boolean;
+
+const SessionExpiryContext = createContext<SessionExpiredHandler>(() => false);
+
+// Manejo global de la sesión vencida (SessionExpiredError) en la app autenticada:
+// avisa con un toast y vuelve al login con returnTo apuntando a la página actual
+// Al salir del layout autenticado se desmonta todo su estado (permisos, sidebar, formularios);
+// las cookies ya las limpió el servidor, lo que además invalida el Router Cache de Next.js
+export function SessionExpiryProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const t = useTranslations();
+
+  const handleSessionExpired = useCallback<SessionExpiredHandler>(
+    (error) => {
+      if (!isSessionExpiredError(error)) return false;
+
+      toast.error(t('errors.SESSION_EXPIRED'), {
+        id: SESSION_EXPIRED_TOAST_ID,
+      });
+      const { pathname, search } = window.location;
+      router.replace(buildLoginPath(`${pathname}${search}`));
+      return true;
+    },
+    [router, t]
+  );
+
+  // Errores de sesión vencida que ningún componente atrapó (ej: una Server Action sin try/catch)
+  useEffect(() => {
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      if (handleSessionExpired(event.reason)) event.preventDefault();
+    };
+
+    window.addEventListener('unhandledrejection', handleRejection);
+    return () =>
+      window.removeEventListener('unhandledrejection', handleRejection);
+  }, [handleSessionExpired]);
+
+  return (
+    <SessionExpiryContext.Provider value={handleSessionExpired}>
+      {children}
+    </SessionExpiryContext.Provider>
+  );
+}
+
+// Para usar en los catch de las acciones: retorna true si el error era de sesión vencida
+// (ya se avisó y se redirigió al login, así que el componente no debe mostrar su propio error)
+export function useSessionExpiredHandler(): SessionExpiredHandler {
+  return useContext(SessionExpiryContext);
+}
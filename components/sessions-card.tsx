@@ -0,0 +1,215 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import type { UserSession } from '@/lib/api/user';
+import type { Locale } from '@/lib/i18n/config';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import { formatDateTime } from '@/lib/i18n/format';
+import type { Translator } from '@/lib/i18n/translator';
+import { describeUserAgent } from '@/lib/user-agent';
+import { revokeOtherSessions, revokeSession } from '@/server/sessions-actions';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useLocale,
+  useTimeZone,
+  useTranslations,
+} from '@/components/i18n-provider';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+function formatDate(
+  value: string | null,
+  locale: Locale,
+  timeZone: string,
+  t: Translator
+) {
+  return value ? formatDateTime(value, locale, timeZone) : t('common.never');
+}
+
+export function SessionsCard({ sessions }: { sessions: UserSession[] }) {
+  const router = useRouter();
+  const t = useTranslations();
+  const locale = useLocale();
+  const timeZone = useTimeZone();
+  const handleSessionExpired = useSessionExpiredHandler();
+  const [pendingSessionId, setPendingSessionId] = React.useState<string | null>(
+    null
+  );
+  const [isRevokingOthers, setIsRevokingOthers] = React.useState(false);
+  const otherSessionsCount = sessions.filter(
+    (session) => !session.is_current
+  ).length;
+
+  const handleRevoke = async (sessionId: string) => {
+    setPendingSessionId(sessionId);
+    try {
+      await revokeSession(sessionId);
+      toast.success(t('sessions.revoked'));
+      router.refresh();
+    } catch (error) {
+      if (handleSessionExpired(error)) return;
+      toast.error(t('sessions.revokeFailed'), {
+        description: getCaughtErrorMessage(t, error),
+      });
+    } finally {
+      setPendingSessionId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setIsRevokingOthers(true);
+    try {
+      await revokeOtherSessions();
+      toast.success(t('sessions.othersSignedOut'));
+      router.refresh();
+    } catch (error) {
+      if (handleSessionExpired(error)) return;
+      toast.error(t('sessions.signOutOthersFailed'), {
+        description: getCaughtErrorMessage(t, error),
+      });
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t('sessions.title')}</CardTitle>
+            <CardDescription>{t('sessions.description')}</CardDescription>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={otherSessionsCount === 0 || isRevokingOthers}
+              >
+                {isRevokingOthers
+                  ? t('sessions.signingOut')
+                  : t('sessions.signOutOthers')}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {t('sessions.signOutOthersTitle')}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  {otherSessionsCount === 1
+                    ? t('sessions.signOutOthersDescriptionOne', {
+                        count: otherSessionsCount,
+                      })
+                    : t('sessions.signOutOthersDescriptionOther', {
+                        count: otherSessionsCount,
+                      })}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRevokeOthers}>
+                  {t('sessions.signOut')}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('sessions.device')}</TableHead>
+              <TableHead>{t('sessions.ipAddress')}</TableHead>
+              <TableHead>{t('sessions.lastUsed')}</TableHead>
+              <TableHead>{t('sessions.created')}</TableHead>
+              <TableHead className="text-right">
+                <span className="sr-only">{t('sessions.actions')}</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map((session) => (
+              <TableRow key={session.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {session.device ||
+                        describeUserAgent(session.user_agent, t)}
+                    </span>
+                    {session.is_current && (
+                      <Badge variant="secondary">
+                        {t('sessions.thisDevice')}
+                      </Badge>
+                    )}
+                  </div>
+                  {session.user_agent && (
+                    <p
+                      className="text-muted-foreground max-w-xs truncate text-xs"
+                      title={session.user_agent}
+                    >
+                      {session.user_agent}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {session.ip_address || t('common.unknown')}
+                </TableCell>
+                <TableCell>
+                  {formatDate(session.last_used_at, locale, timeZone, t)}
+                </TableCell>
+                <TableCell>
+                  {formatDate(session.created_at, locale, timeZone, t)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!session.is_current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={pendingSessionId === session.id}
+                    >
+                      {pendingSessionId === session.id
+                        ? t('sessions.revoking')
+                        : t('sessions.revoke')}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSeparator,
+  InputOTPSlot,
+} from '@/components/ui/input-otp';
+
+export const TOTP_CODE_LENGTH = 6;
+
+interface TotpCodeInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  autoFocus?: boolean;
+}
+
+export function TotpCodeInput({
+  id,
+  value,
+  onChange,
+  onComplete,
+  disabled,
+  invalid,
+  autoFocus,
+}: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      id={id}
+      maxLength={TOTP_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      autoComplete="one-time-code"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} aria-invalid={invalid} />
+        <InputOTPSlot index={1} aria-invalid={invalid} />
+        <InputOTPSlot index={2} aria-invalid={invalid} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} aria-invalid={invalid} />
+        <InputOTPSlot index={4} aria-invalid={invalid} />
+        <InputOTPSlot index={5} aria-invalid={invalid} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
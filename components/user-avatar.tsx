@@ -0,0 +1,37 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+
+// Iniciales del nombre (máximo dos) o, sin nombre, la primera letra del email
+export function getInitials(
+  fullName: string | null,
+  email?: string | null
+): string {
+  const words = fullName?.trim().split(/\s+/).filter(Boolean) ?? [];
+  if (words.length > 0) {
+    const first = words[0][0];
+    const last = words.length > 1 ? words[words.length - 1][0] : '';
+    return `${first}${last}`.toUpperCase();
+  }
+  return email?.[0]?.toUpperCase() ?? '?';
+}
+
+export function UserAvatar({
+  avatarUrl,
+  fullName,
+  email,
+  className,
+}: {
+  avatarUrl: string | null;
+  fullName: string | null;
+  email?: string | null;
+  className?: string;
+}) {
+  return (
+    <Avatar className={cn('size-10', className)}>
+      {avatarUrl && (
+        <AvatarImage src={avatarUrl} alt={fullName ?? email ?? 'Avatar'} />
+      )}
+      <AvatarFallback>{getInitials(fullName, email)}</AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  ChevronsUpDown,
+  Languages,
+  LogOut,
+  Shield,
+  SunMoon,
+  User,
+} from 'lucide-react';
+import { useTheme } from 'next-themes';
+import { useLogout } from '@/hooks/use-logout';
+import { LOCALE_LABELS, LOCALES, type Locale } from '@/lib/i18n/config';
+import { THEME_OPTIONS } from '@/lib/theme';
+import { setLocale } from '@/server/set-locale-action';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLocale, useTranslations } from '@/components/i18n-provider';
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import { UserAvatar } from '@/components/user-avatar';
+
+export interface UserMenuUser {
+  email: string;
+  fullName: string | null;
+  avatarUrl: string | null;
+}
+
+function UserSummary({ user }: { user: UserMenuUser }) {
+  return (
+    <>
+      <UserAvatar
+        avatarUrl={user.avatarUrl}
+        fullName={user.fullName}
+        email={user.email}
+        className="size-8 rounded-lg"
+      />
+      <div className="grid flex-1 text-left text-sm leading-tight">
+        <span className="truncate font-medium">
+          {user.fullName || user.email}
+        </span>
+        <span className="text-muted-foreground truncate text-xs">
+          {user.email}
+        </span>
+      </div>
+    </>
+  );
+}
+
+export function UserMenu({ user }: { user: UserMenuUser }) {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const router = useRouter();
+  const logout = useLogout();
+  const t = useTranslations();
+  const locale = useLocale();
+  const { theme, setTheme } = useTheme();
+
+  const changeLocale = async (nextLocale: string) => {
+    await setLocale(nextLocale as Locale);
+    router.refresh();
+  };
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton
+              size="lg"
+              className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
+            >
+              <UserSummary user={user} />
+              <ChevronsUpDown className="ml-auto size-4" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-(--radix-dropdown-menu-trigger-width) min-w-56 rounded-lg"
+            side={isMobile ? 'bottom' : 'right'}
+            align="end"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="p-0 font-normal">
+              <div className="flex items-center gap-2 px-1 py-1.5">
+                <UserSummary user={user} />
+              </div>
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuGroup>
+              <DropdownMenuItem asChild>
+                <Link
+                  href="/dashboard/profile"
+                  onClick={() => setOpenMobile(false)}
+                >
+                  <User />
+                  {t('nav.profile')}
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link
+                  href="/dashboard/security"
+                  onClick={() => setOpenMobile(false)}
+                >
+                  <Shield />
+                  {t('nav.security')}
+                </Link>
+              </DropdownMenuItem>
+            </DropdownMenuGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <SunMoon />
+                {t('theme.title')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuRadioGroup value={theme} onValueChange={setTheme}>
+                  {THEME_OPTIONS.map((option) => (
+                    <DropdownMenuRadioItem
+                      key={option.value}
+                      value={option.value}
+                    >
+                      <option.icon />
+                      {t(option.labelKey)}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Languages />
+                {t('userMenu.language')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuRadioGroup
+                  value={locale}
+                  onValueChange={changeLocale}
+                >
+                  {LOCALES.map((option) => (
+                    <DropdownMenuRadioItem
+                      key={option}
+                      value={option}
+                      lang={option}
+                    >
+                      {LOCALE_LABELS[option]}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={logout}>
+              <LogOut />
+              {t('userMenu.logout')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
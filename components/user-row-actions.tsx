@@ -0,0 +1,288 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  LogOut,
+  MoreHorizontal,
+  ShieldCheck,
+  UserCheck,
+  UserX,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import type { AdminUser } from '@/lib/api/admin';
+import {
+  AUDIT_REASON_MAX_LENGTH,
+  AUDIT_REASON_MIN_LENGTH,
+} from '@/lib/audit-reason';
+import { getCaughtErrorMessage, getErrorMessage } from '@/lib/i18n/errors';
+import { getRoleLabel } from '@/lib/i18n/labels';
+import type { Translator } from '@/lib/i18n/translator';
+import { ROLES, toRole, type Role } from '@/lib/permissions';
+import {
+  changeUserRole,
+  reactivateUser,
+  revokeUserSessions,
+  suspendUser,
+} from '@/server/admin-users-actions';
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Field, FieldError, FieldLabel } from '@/components/ui/field';
+import { Textarea } from '@/components/ui/textarea';
+import { useTranslations } from '@/components/i18n-provider';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+type UserAction =
+  | { type: 'change-role'; role: Role }
+  | { type: 'suspend' }
+  | { type: 'reactivate' }
+  | { type: 'revoke-sessions' };
+
+function describeAction(action: UserAction, email: string, t: Translator) {
+  switch (action.type) {
+    case 'change-role': {
+      const role = getRoleLabel(t, action.role);
+      return {
+        title: t('userActions.changeRoleTitle', { role }),
+        description: t('userActions.changeRoleDescription', { email, role }),
+        confirmLabel: t('userActions.changeRole'),
+        success: t('userActions.roleUpdated'),
+      };
+    }
+    case 'suspend':
+      return {
+        title: t('userActions.suspendTitle', { email }),
+        description: t('userActions.suspendDescription'),
+        confirmLabel: t('userActions.suspend'),
+        success: t('userActions.userSuspended'),
+      };
+    case 'reactivate':
+      return {
+        title: t('userActions.reactivateTitle', { email }),
+        description: t('userActions.reactivateDescription'),
+        confirmLabel: t('userActions.reactivate'),
+        success: t('userActions.userReactivated'),
+      };
+    case 'revoke-sessions':
+      return {
+        title: t('userActions.signOutEverywhereTitle', { email }),
+        description: t('userActions.signOutEverywhereDescription'),
+        confirmLabel: t('userActions.signOutEverywhere'),
+        success: t('userActions.userSignedOut'),
+      };
+  }
+}
+
+function runAction(action: UserAction, userId: string, reason: string) {
+  switch (action.type) {
+    case 'change-role':
+      return changeUserRole({ userId, role: action.role, reason });
+    case 'suspend':
+      return suspendUser({ userId, reason });
+    case 'reactivate':
+      return reactivateUser({ userId, reason });
+    case 'revoke-sessions':
+      return revokeUserSessions({ userId, reason });
+  }
+}
+
+export function UserRowActions({
+  user,
+  isCurrentUser,
+}: {
+  user: AdminUser;
+  isCurrentUser: boolean;
+}) {
+  const router = useRouter();
+  const t = useTranslations();
+  const handleSessionExpired = useSessionExpiredHandler();
+  const [action, setAction] = React.useState<UserAction | null>(null);
+  const [reason, setReason] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const currentRole = toRole(user.role);
+  const isSuspended = user.status === 'suspended';
+  const details = action && describeAction(action, user.email, t);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open || isSubmitting) return;
+    setAction(null);
+    setReason('');
+    setError(null);
+  };
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!action || !details) return;
+    const trimmedReason = reason.trim();
+    if (!trimmedReason) {
+      setError(t('userActions.reasonRequired'));
+      return;
+    }
+    if (trimmedReason.length < AUDIT_REASON_MIN_LENGTH) {
+      setError(
+        t('userActions.reasonTooShort', { min: AUDIT_REASON_MIN_LENGTH })
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await runAction(action, user.id, reason);
+      if (!result.success) {
+        setError(getErrorMessage(t, result.code));
+        return;
+      }
+      setAction(null);
+      setReason('');
+      toast.success(details.success);
+      router.refresh();
+    } catch (err) {
+      if (handleSessionExpired(err)) return;
+      toast.error(t('userActions.updateFailed'), {
+        description: getCaughtErrorMessage(t, err),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={isCurrentUser}
+            aria-label={t('userActions.actionsFor', { email: user.email })}
+          >
+            <MoreHorizontal />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel className="truncate">
+            {user.email}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <ShieldCheck />
+              {t('userActions.changeRole')}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuRadioGroup
+                value={currentRole}
+                onValueChange={(role) => {
+                  if (role !== currentRole) {
+                    setAction({ type: 'change-role', role: role as Role });
+                  }
+                }}
+              >
+                {ROLES.map((role) => (
+                  <DropdownMenuRadioItem key={role} value={role}>
+                    {getRoleLabel(t, role)}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {isSuspended ? (
+            <DropdownMenuItem
+              onSelect={() => setAction({ type: 'reactivate' })}
+            >
+              <UserCheck />
+              {t('userActions.reactivate')}
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem
+              variant="destructive"
+              onSelect={() => setAction({ type: 'suspend' })}
+            >
+              <UserX />
+              {t('userActions.suspend')}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            variant="destructive"
+            onSelect={() => setAction({ type: 'revoke-sessions' })}
+          >
+            <LogOut />
+            {t('userActions.signOutEverywhere')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={action !== null} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{details?.title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {details?.description}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <form id={`form-user-action-${user.id}`} onSubmit={onSubmit}>
+            <Field data-invalid={!!error}>
+              <FieldLabel htmlFor={`form-user-action-${user.id}-reason`}>
+                {t('userActions.reason')}
+              </FieldLabel>
+              <Textarea
+                id={`form-user-action-${user.id}-reason`}
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder={t('userActions.reasonPlaceholder')}
+                className="border-gray-600"
+                aria-invalid={!!error}
+                disabled={isSubmitting}
+                maxLength={AUDIT_REASON_MAX_LENGTH}
+                rows={3}
+              />
+              {error && <FieldError>{error}</FieldError>}
+            </Field>
+          </form>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>
+              {t('common.cancel')}
+            </AlertDialogCancel>
+            <Button
+              type="submit"
+              form={`form-user-action-${user.id}`}
+              variant={
+                action?.type === 'suspend' || action?.type === 'revoke-sessions'
+                  ? 'destructive'
+                  : 'default'
+              }
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? t('common.saving') : details?.confirmLabel}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
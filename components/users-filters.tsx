@@ -0,0 +1,97 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { SearchIcon } from 'lucide-react';
+import { getStatusLabel } from '@/lib/i18n/labels';
+import {
+  buildUsersHref,
+  USER_STATUSES,
+  type UsersQuery,
+  type UserStatus,
+} from '@/lib/users-query';
+
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from '@/components/ui/input-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { useTranslations } from '@/components/i18n-provider';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const ALL_STATUSES = 'all';
+
+export function UsersFilters({ query }: { query: UsersQuery }) {
+  const router = useRouter();
+  const t = useTranslations();
+  const [search, setSearch] = React.useState(query.q);
+  const [isPending, startTransition] = React.useTransition();
+  const searchTimeout = React.useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const navigate = (changes: Partial<UsersQuery>) => {
+    startTransition(() => {
+      router.replace(buildUsersHref(query, { ...changes, page: 1 }));
+    });
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    clearTimeout(searchTimeout.current);
+    searchTimeout.current = setTimeout(
+      () => navigate({ q: value.trim() }),
+      SEARCH_DEBOUNCE_MS
+    );
+  };
+
+  React.useEffect(() => () => clearTimeout(searchTimeout.current), []);
+
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+      <InputGroup className="border-gray-600 sm:max-w-sm">
+        <InputGroupInput
+          type="search"
+          placeholder={t('users.searchPlaceholder')}
+          aria-label={t('users.searchLabel')}
+          value={search}
+          onChange={(event) => handleSearchChange(event.target.value)}
+        />
+        <InputGroupAddon>
+          <SearchIcon />
+        </InputGroupAddon>
+        {isPending && (
+          <InputGroupAddon align="inline-end">
+            <Spinner />
+          </InputGroupAddon>
+        )}
+      </InputGroup>
+      <Select
+        value={query.status ?? ALL_STATUSES}
+        onValueChange={(value) =>
+          navigate({
+            status: value === ALL_STATUSES ? undefined : (value as UserStatus),
+          })
+        }
+      >
+        <SelectTrigger className="w-full border-gray-600 sm:w-44">
+          <SelectValue placeholder={t('users.statusPlaceholder')} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_STATUSES}>{t('users.allStatuses')}</SelectItem>
+          {USER_STATUSES.map((status) => (
+            <SelectItem key={status} value={status}>
+              {getStatusLabel(t, status)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,473 @@
+'use client';
+
+import * as React from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { toast } from 'sonner';
+import { STATS_MAX_RANGE_DAYS, type UsersStats } from '@/lib/api/user';
+import {
+  countDays,
+  parseIsoDate,
+  type DateRangePreset,
+  type DateRangeValue,
+} from '@/lib/date-range';
+import type { Locale } from '@/lib/i18n/config';
+import { getCaughtErrorMessage } from '@/lib/i18n/errors';
+import { formatDate, formatNumber } from '@/lib/i18n/format';
+import { getRoleLabel, getStatusLabel } from '@/lib/i18n/labels';
+import type { Translator } from '@/lib/i18n/translator';
+import { cn } from '@/lib/utils';
+import { getUsersStats } from '@/server/get-users-stats-action';
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { DateRangePicker } from '@/components/date-range-picker';
+import { ExportMenu } from '@/components/export-menu';
+import { useLocale, useTranslations } from '@/components/i18n-provider';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useSessionExpiredHandler } from '@/components/session-expiry-provider';
+
+function createTimeseriesConfig(t: Translator) {
+  return {
+    signups: { label: t('stats.signups'), color: 'var(--chart-1)' },
+    active_users: { label: t('stats.activeUsers'), color: 'var(--chart-2)' },
+    previous_signups: {
+      label: t('stats.previousPeriod'),
+      color: 'var(--chart-3)',
+    },
+    previous_active_users: {
+      label: t('stats.previousPeriod'),
+      color: 'var(--chart-3)',
+    },
+  } satisfies ChartConfig;
+}
+
+type StatsResult = Awaited<ReturnType<typeof getUsersStats>>;
+
+function formatDay(value: string, locale: Locale) {
+  return formatDate(parseIsoDate(value), locale, {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// Variación porcentual respecto del período anterior (null si no hay base para comparar)
+function getDelta(value: number, previousValue: number) {
+  if (previousValue === 0) return value === 0 ? 0 : null;
+  return ((value - previousValue) / previousValue) * 100;
+}
+
+// Convierte un desglose { clave: cantidad } en datos y config de chart
+// Las claves vienen del backend: se normalizan para poder usarlas como variables CSS (--color-<clave>)
+function toBreakdown(
+  counts: Record<string, number>,
+  t: Translator,
+  getLabel: (t: Translator, key: string) => string
+) {
+  const config: ChartConfig = {};
+  const data = Object.entries(counts).map(([key, value], index) => {
+    const slug = key.replace(/[^a-zA-Z0-9_-]/g, '-') || 'unknown';
+    config[slug] = {
+      label: key ? getLabel(t, key) : t('common.unknown'),
+      color: `var(--chart-${(index % 5) + 1})`,
+    };
+    return { key: slug, value, fill: `var(--color-${slug})` };
+  });
+  return { data, config };
+}
+
+function KpiCard({
+  title,
+  value,
+  previousValue,
+  description,
+}: {
+  title: string;
+  value: number;
+  previousValue?: number;
+  description?: string;
+}) {
+  const locale = useLocale();
+  const t = useTranslations();
+  const delta =
+    previousValue === undefined ? undefined : getDelta(value, previousValue);
+
+  return (
+    <Card className="gap-2">
+      <CardHeader>
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl tabular-nums">
+          {formatNumber(value, locale)}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-muted-foreground space-y-1 text-xs">
+        {description && <p>{description}</p>}
+        {delta !== undefined && (
+          <p
+            className={cn(
+              'flex items-center gap-1 font-medium',
+              delta !== null && delta > 0 && 'text-emerald-600',
+              delta !== null && delta < 0 && 'text-destructive'
+            )}
+          >
+            {delta !== null && delta < 0 ? (
+              <TrendingDown className="size-3.5" />
+            ) : (
+              <TrendingUp className="size-3.5" />
+            )}
+            {delta === null
+              ? t('stats.new')
+              : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}%`}{' '}
+            <span className="text-muted-foreground font-normal">
+              {t('stats.vsPreviousPeriod')}
+            </span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function sumSignups(stats: UsersStats) {
+  return stats.timeseries.reduce((total, point) => total + point.signups, 0);
+}
+
+export function UsersStatsView({
+  initialStats,
+  initialRange,
+  initialPreset,
+}: {
+  initialStats: UsersStats;
+  initialRange: DateRangeValue;
+  initialPreset: DateRangePreset | null;
+}) {
+  const locale = useLocale();
+  const t = useTranslations();
+  const timeseriesConfig = React.useMemo(() => createTimeseriesConfig(t), [t]);
+  const handleSessionExpired = useSessionExpiredHandler();
+  const [range, setRange] = React.useState(initialRange);
+  const [preset, setPreset] = React.useState(initialPreset);
+  const [compare, setCompare] = React.useState(false);
+  const [result, setResult] = React.useState<StatsResult>({
+    current: initialStats,
+    previous: null,
+  });
+  const [isPending, startTransition] = React.useTransition();
+  // Solo se aplica la respuesta del último pedido (evita que una respuesta lenta pise a una nueva)
+  const latestRequest = React.useRef(0);
+
+  const loadStats = (nextRange: DateRangeValue, nextCompare: boolean) => {
+    const requestId = ++latestRequest.current;
+    startTransition(async () => {
+      try {
+        const nextResult = await getUsersStats(nextRange, {
+          compare: nextCompare,
+        });
+        if (requestId === latestRequest.current) {
+          startTransition(() => setResult(nextResult));
+        }
+      } catch (error) {
+        if (handleSessionExpired(error)) return;
+        toast.error(t('stats.loadFailed'), {
+          description: getCaughtErrorMessage(t, error),
+        });
+      }
+    });
+  };
+
+  const handleRangeChange = (
+    nextRange: DateRangeValue,
+    nextPreset: DateRangePreset | null
+  ) => {
+    setRange(nextRange);
+    setPreset(nextPreset);
+    loadStats(nextRange, compare);
+  };
+
+  const handleCompareChange = (nextCompare: boolean) => {
+    setCompare(nextCompare);
+    loadStats(range, nextCompare);
+  };
+
+  const { current: stats, previous } = result;
+  const signups = sumSignups(stats);
+  // La serie anterior se alinea por posición: el día N del rango con el día N del período anterior
+  const timeseries = stats.timeseries.map((point, index) => ({
+    ...point,
+    previous_signups: previous?.timeseries[index]?.signups,
+    previous_active_users: previous?.timeseries[index]?.active_users,
+  }));
+  const activeShare =
+    stats.total_users > 0
+      ? Math.round((stats.active_users / stats.total_users) * 100)
+      : 0;
+  const roles = toBreakdown(stats.users_by_role, t, getRoleLabel);
+  const statuses = toBreakdown(stats.users_by_status, t, getStatusLabel);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <DateRangePicker
+          value={range}
+          preset={preset}
+          onChange={handleRangeChange}
+          maxDays={STATS_MAX_RANGE_DAYS}
+        />
+        <div className="flex items-center gap-2">
+          <Switch
+            id="stats-compare"
+            checked={compare}
+            onCheckedChange={handleCompareChange}
+          />
+          <Label htmlFor="stats-compare">{t('stats.compare')}</Label>
+        </div>
+        <div className="ml-auto">
+          <ExportMenu
+            href={`/admin/stats/export?${new URLSearchParams({
+              ...range,
+              ...(compare && { compare: '1' }),
+            })}`}
+          />
+        </div>
+      </div>
+
+      <div
+        className={cn(
+          'space-y-6 transition-opacity',
+          isPending && 'pointer-events-none opacity-60'
+        )}
+        aria-busy={isPending}
+      >
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <KpiCard
+            title={t('stats.totalUsers')}
+            value={stats.total_users}
+            previousValue={previous?.total_users}
+          />
+          <KpiCard
+            title={t('stats.activeUsers')}
+            value={stats.active_users}
+            previousValue={previous?.active_users}
+            description={t('stats.activeShare', { percent: activeShare })}
+          />
+          <KpiCard
+            title={t('stats.newSignups')}
+            value={signups}
+            previousValue={previous ? sumSignups(previous) : undefined}
+            description={t('stats.overDays', { days: countDays(range) })}
+          />
+          <KpiCard
+            title={t('stats.suspended')}
+            value={stats.users_by_status.suspended ?? 0}
+            previousValue={
+              previous ? (previous.users_by_status.suspended ?? 0) : undefined
+            }
+          />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('stats.signupsOverTime')}</CardTitle>
+              <CardDescription>
+                {t('stats.signupsOverTimeDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={timeseriesConfig}>
+                <BarChart data={timeseries}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                    tickFormatter={(value: string) => formatDay(value, locale)}
+                  />
+                  <YAxis
+                    allowDecimals={false}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(value: string) =>
+                          formatDay(value, locale)
+                        }
+                      />
+                    }
+                  />
+                  <Bar
+                    dataKey="signups"
+                    fill="var(--color-signups)"
+                    radius={4}
+                  />
+                  {previous && (
+                    <Bar
+                      dataKey="previous_signups"
+                      fill="var(--color-previous_signups)"
+                      fillOpacity={0.5}
+                      radius={4}
+                    />
+                  )}
+                  {previous && <ChartLegend content={<ChartLegendContent />} />}
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('stats.activeUsers')}</CardTitle>
+              <CardDescription>
+                {t('stats.activeUsersDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={timeseriesConfig}>
+                <AreaChart data={timeseries}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                    tickFormatter={(value: string) => formatDay(value, locale)}
+                  />
+                  <YAxis
+                    allowDecimals={false}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(value: string) =>
+                          formatDay(value, locale)
+                        }
+                      />
+                    }
+                  />
+                  <Area
+                    dataKey="active_users"
+                    type="monotone"
+                    fill="var(--color-active_users)"
+                    fillOpacity={0.3}
+                    stroke="var(--color-active_users)"
+                  />
+                  {previous && (
+                    <Line
+                      dataKey="previous_active_users"
+                      type="monotone"
+                      stroke="var(--color-previous_active_users)"
+                      strokeDasharray="4 4"
+                      dot={false}
+                    />
+                  )}
+                  {previous && <ChartLegend content={<ChartLegendContent />} />}
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('stats.usersByRole')}</CardTitle>
+              <CardDescription>
+                {t('stats.usersByRoleDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer
+                config={roles.config}
+                className="mx-auto aspect-square max-h-72"
+              >
+                <PieChart>
+                  <ChartTooltip
+                    content={<ChartTooltipContent nameKey="key" hideLabel />}
+                  />
+                  <Pie
+                    data={roles.data}
+                    dataKey="value"
+                    nameKey="key"
+                    innerRadius="55%"
+                    strokeWidth={2}
+                  >
+                    {roles.data.map((entry) => (
+                      <Cell key={entry.key} fill={entry.fill} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                </PieChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('stats.usersByStatus')}</CardTitle>
+              <CardDescription>
+                {t('stats.usersByStatusDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={statuses.config}>
+                <BarChart data={statuses.data} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis
+                    dataKey="key"
+                    type="category"
+                    tickLine={false}
+                    axisLine={false}
+                    width={96}
+                    tickFormatter={(key: string) =>
+                      String(statuses.config[key]?.label ?? key)
+                    }
+                  />
+                  <ChartTooltip
+                    content={<ChartTooltipContent nameKey="key" hideLabel />}
+                  />
+                  <Bar dataKey="value" radius={4}>
+                    {statuses.data.map((entry) => (
+                      <Cell key={entry.key} fill={entry.fill} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
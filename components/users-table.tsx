@@ -0,0 +1,252 @@
+import Link from 'next/link';
+import { ArrowDownIcon, ArrowUpDownIcon, ArrowUpIcon } from 'lucide-react';
+import type { UsersPage } from '@/lib/api/admin';
+import type { Locale } from '@/lib/i18n/config';
+import { formatDateTime } from '@/lib/i18n/format';
+import { getRoleLabel, getStatusLabel } from '@/lib/i18n/labels';
+import type { Translator } from '@/lib/i18n/translator';
+import {
+  buildUsersHref,
+  type UserSortField,
+  type UsersQuery,
+} from '@/lib/users-query';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Can } from '@/components/can';
+import { UserAvatar } from '@/components/user-avatar';
+import { UserRowActions } from '@/components/user-row-actions';
+
+// Páginas a mostrar: la primera, la última y las vecinas de la actual; null = elipsis
+function getPageItems(page: number, totalPages: number): (number | null)[] {
+  const items: (number | null)[] = [];
+  for (let current = 1; current <= totalPages; current++) {
+    if (
+      current === 1 ||
+      current === totalPages ||
+      Math.abs(current - page) <= 1
+    ) {
+      items.push(current);
+    } else if (items[items.length - 1] !== null) {
+      items.push(null);
+    }
+  }
+  return items;
+}
+
+function SortableHead({
+  query,
+  field,
+  children,
+}: {
+  query: UsersQuery;
+  field: UserSortField;
+  children: React.ReactNode;
+}) {
+  const isActive = query.sort === field;
+  // Primer click: ascendente; sobre la columna activa invierte el orden
+  const order = isActive && query.order === 'asc' ? 'desc' : 'asc';
+  const Icon = !isActive
+    ? ArrowUpDownIcon
+    : query.order === 'asc'
+      ? ArrowUpIcon
+      : ArrowDownIcon;
+
+  return (
+    <TableHead
+      aria-sort={
+        isActive
+          ? query.order === 'asc'
+            ? 'ascending'
+            : 'descending'
+          : undefined
+      }
+    >
+      <Link
+        href={buildUsersHref(query, { sort: field, order, page: 1 })}
+        className="hover:text-foreground inline-flex items-center gap-1"
+        replace
+      >
+        {children}
+        <Icon
+          className={isActive ? 'size-3.5' : 'text-muted-foreground size-3.5'}
+        />
+      </Link>
+    </TableHead>
+  );
+}
+
+export function UsersTable({
+  query,
+  usersPage,
+  currentUserId,
+  locale,
+  timeZone,
+  t,
+}: {
+  query: UsersQuery;
+  usersPage: UsersPage;
+  currentUserId: string;
+  locale: Locale;
+  timeZone: string;
+  t: Translator;
+}) {
+  const { items, total, page, page_size: pageSize } = usersPage;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const firstItem = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, total);
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <SortableHead query={query} field="email">
+              {t('users.user')}
+            </SortableHead>
+            <SortableHead query={query} field="role">
+              {t('users.role')}
+            </SortableHead>
+            <TableHead>{t('users.status')}</TableHead>
+            <SortableHead query={query} field="created_at">
+              {t('users.created')}
+            </SortableHead>
+            <TableHead className="text-right">
+              <span className="sr-only">{t('users.actions')}</span>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={5}
+                className="text-muted-foreground h-24 text-center"
+              >
+                {t('users.empty')}
+              </TableCell>
+            </TableRow>
+          ) : (
+            items.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    <UserAvatar
+                      avatarUrl={user.avatar_url}
+                      fullName={user.full_name}
+                      email={user.email}
+                      className="size-8"
+                    />
+                    <div>
+                      <p className="font-medium">
+                        {user.full_name || user.email}
+                      </p>
+                      {user.full_name && (
+                        <p className="text-muted-foreground text-xs">
+                          {user.email}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {user.role
+                    ? getRoleLabel(t, user.role)
+                    : t('common.notAssigned')}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      user.status === 'suspended' ? 'destructive' : 'secondary'
+                    }
+                  >
+                    {user.status
+                      ? getStatusLabel(t, user.status)
+                      : t('common.unknown')}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {formatDateTime(user.created_at, locale, timeZone)}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Can permission="users:manage">
+                    <UserRowActions
+                      user={user}
+                      isCurrentUser={user.id === currentUserId}
+                    />
+                  </Can>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-col items-center justify-between gap-2 sm:flex-row">
+        <p className="text-muted-foreground text-sm whitespace-nowrap">
+          {t(total === 1 ? 'users.showingOne' : 'users.showingOther', {
+            first: firstItem,
+            last: lastItem,
+            total,
+          })}
+        </p>
+        {totalPages > 1 && (
+          <Pagination className="sm:justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href={buildUsersHref(query, { page: page - 1 })}
+                  aria-disabled={page <= 1}
+                  className={
+                    page <= 1 ? 'pointer-events-none opacity-50' : undefined
+                  }
+                />
+              </PaginationItem>
+              {getPageItems(page, totalPages).map((item, index) => (
+                <PaginationItem key={item ?? `ellipsis-${index}`}>
+                  {item === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href={buildUsersHref(query, { page: item })}
+                      isActive={item === page}
+                    >
+                      {item}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href={buildUsersHref(query, { page: page + 1 })}
+                  aria-disabled={page >= totalPages}
+                  className={
+                    page >= totalPages
+                      ? 'pointer-events-none opacity-50'
+                      : undefined
+                  }
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
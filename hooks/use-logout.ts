@@ -0,0 +1,18 @@
+import { useRouter } from 'next/navigation';
+import { LOGIN_PATH } from '@/lib/routes';
+import { logout as logoutAction } from '@/server/logout-action';
+
+// Cierra la sesión en el backend y vuelve al login
+// Aunque el request al backend falle, las cookies locales ya se limpiaron en la Server Action
+export function useLogout() {
+  const router = useRouter();
+
+  return async () => {
+    try {
+      await logoutAction();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+    router.push(LOGIN_PATH);
+  };
+}
@@ -0,0 +1,106 @@
+import * as z from 'zod';
+import { defineEndpoint } from '@/lib/api/client';
+import { userSchema } from '@/lib/api/schemas';
+import {
+  AUDIT_REASON_MAX_LENGTH,
+  AUDIT_REASON_MIN_LENGTH,
+} from '@/lib/audit-reason';
+import { ROLES } from '@/lib/permissions';
+import {
+  SORT_ORDERS,
+  USER_SORT_FIELDS,
+  USER_STATUSES,
+} from '@/lib/users-query';
+
+// Usuario tal como lo lista el panel de administración: datos de la cuenta + campos del perfil
+export const adminUserSchema = userSchema.extend({
+  full_name: z.string().nullable(),
+  avatar_url: z.string().nullable(),
+  status: z.string().nullable(),
+  created_at: z.string(),
+});
+
+// Página de usuarios. total es la cantidad de usuarios que cumplen los filtros (no solo los de la página)
+export const usersPageSchema = z.object({
+  items: z.array(adminUserSchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int().min(1),
+  page_size: z.number().int().min(1),
+});
+
+export const listUsersInputSchema = z.object({
+  page: z.number().int().min(1),
+  page_size: z.number().int().min(1).max(100),
+  sort: z.enum(USER_SORT_FIELDS),
+  order: z.enum(SORT_ORDERS),
+  q: z.string().trim().max(100).optional(),
+  status: z.enum(USER_STATUSES).optional(),
+});
+
+// Motivo obligatorio de cada acción administrativa: el backend lo guarda en el registro de auditoría
+export const auditReasonSchema = z
+  .string()
+  .trim()
+  .min(
+    AUDIT_REASON_MIN_LENGTH,
+    `Reason must be at least ${AUDIT_REASON_MIN_LENGTH} characters`
+  )
+  .max(
+    AUDIT_REASON_MAX_LENGTH,
+    `Reason must be at most ${AUDIT_REASON_MAX_LENGTH} characters`
+  );
+
+export const updateUserRoleInputSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(ROLES),
+  reason: auditReasonSchema,
+});
+
+export const updateUserStatusInputSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(USER_STATUSES),
+  reason: auditReasonSchema,
+});
+
+export const revokeUserSessionsInputSchema = z.object({
+  id: z.string().min(1),
+  reason: auditReasonSchema,
+});
+
+export type AdminUser = z.infer<typeof adminUserSchema>;
+export type UsersPage = z.infer<typeof usersPageSchema>;
+export type ListUsersInput = z.infer<typeof listUsersInputSchema>;
+
+// Endpoints de /api/admin/* (el backend exige rol de administrador)
+export const adminApi = {
+  // Paginación, orden, búsqueda (email o nombre) y filtros se resuelven en el backend
+  listUsers: defineEndpoint({
+    method: 'GET',
+    path: '/api/admin/users',
+    input: listUsersInputSchema,
+    output: usersPageSchema,
+  }),
+
+  updateUserRole: defineEndpoint({
+    method: 'PATCH',
+    path: '/api/admin/users/:id/role',
+    input: updateUserRoleInputSchema,
+    output: adminUserSchema,
+  }),
+
+  // Suspender también revoca los refresh tokens del usuario en el backend
+  updateUserStatus: defineEndpoint({
+    method: 'PATCH',
+    path: '/api/admin/users/:id/status',
+    input: updateUserStatusInputSchema,
+    output: adminUserSchema,
+  }),
+
+  // Revoca TODOS los refresh tokens del usuario (cierra su sesión en todos los dispositivos)
+  revokeUserSessions: defineEndpoint({
+    method: 'POST',
+    path: '/api/admin/users/:id/sessions/revoke',
+    input: revokeUserSessionsInputSchema,
+    output: z.object({ revoked: z.number().int().nonnegative() }).optional(),
+  }),
+};
@@ -0,0 +1,136 @@
+import * as z from 'zod';
+import { defineEndpoint } from '@/lib/api/client';
+import { profileSchema, sessionSchema, userSchema } from '@/lib/api/schemas';
+
+export const loginInputSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const registerInputSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
+  full_name: z.string().trim().min(1).optional(),
+});
+
+export type RegisterInput = z.infer<typeof registerInputSchema>;
+
+// Respuesta del login cuando la cuenta tiene 2FA activo: en lugar de la sesión,
+// el backend devuelve un challenge token de vida corta para el segundo paso
+export const mfaChallengeSchema = z.object({
+  mfa_required: z.literal(true),
+  challenge_token: z.string(),
+  expires_in: z.number().int().positive().optional(),
+});
+
+// Segundo paso del login: código TOTP de 6 dígitos o, como alternativa, un código de recuperación
+export const verifyMfaInputSchema = z.union([
+  z.object({
+    challenge_token: z.string().min(1),
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  }),
+  z.object({
+    challenge_token: z.string().min(1),
+    recovery_code: z.string().trim().min(1, 'Recovery code is required'),
+  }),
+]);
+
+export const forgotPasswordInputSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1, 'Current password is required'),
+  new_password: z.string().min(1, 'New password is required'),
+  revoke_other_sessions: z.boolean(),
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Endpoints de /api/auth/*
+export const authApi = {
+  // Público: el backend responde con las cookies de sesión, que se reenvían al navegador
+  // Si la cuenta tiene 2FA, responde con un challenge (sin cookies de sesión)
+  login: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/login',
+    input: loginInputSchema,
+    output: z.union([sessionSchema, mfaChallengeSchema]),
+    auth: false,
+    forwardCookies: true,
+  }),
+
+  // Público: completa el login con 2FA. Recién acá el backend envía las cookies de sesión
+  verifyMfa: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/mfa/verify',
+    input: verifyMfaInputSchema,
+    output: sessionSchema,
+    auth: false,
+    forwardCookies: true,
+  }),
+
+  // Público: si el backend inicia sesión automáticamente tras el registro,
+  // responde con las cookies de sesión y se reenvían igual que en el login
+  register: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/register',
+    input: registerInputSchema,
+    output: z.object({
+      user: userSchema,
+      profile: profileSchema.optional(),
+    }),
+    auth: false,
+    forwardCookies: true,
+  }),
+
+  // Público: envía el email de recuperación. El backend responde igual exista o no la cuenta
+  forgotPassword: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/forgot-password',
+    input: forgotPasswordInputSchema,
+    output: z.unknown(),
+    auth: false,
+  }),
+
+  // Público: establece la nueva contraseña con el token del email de recuperación
+  resetPassword: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/reset-password',
+    input: resetPasswordInputSchema,
+    output: z.unknown(),
+    auth: false,
+  }),
+
+  // Re-autentica con la contraseña actual antes de cambiarla. El backend rota la sesión
+  // (nuevas cookies de access y refresh token) para invalidar los tokens emitidos con la contraseña anterior
+  changePassword: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/change-password',
+    input: changePasswordInputSchema,
+    output: z.unknown(),
+    forwardCookies: true,
+  }),
+
+  // Revoca el refresh token actual. No tiene sentido renovar la sesión para cerrarla
+  logout: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/logout',
+    output: z.unknown(),
+    skipRefresh: true,
+  }),
+
+  // Usuario y perfil de la sesión actual
+  me: defineEndpoint({
+    method: 'GET',
+    path: '/api/auth/me',
+    output: sessionSchema,
+  }),
+};
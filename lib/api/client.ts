@@ -0,0 +1,303 @@
+import * as z from 'zod';
+import { toApiErrorDigest } from '@/lib/api/error-code';
+import { extractAndSetCookies, fetchWithAuth } from '@/lib/auth';
+
+// Error estructurado para TODAS las respuestas fallidas del backend
+// status: código HTTP
+// code: código de error del backend (ej: 'INVALID_CREDENTIALS') o uno genérico 'HTTP_<status>'
+// details: información extra del backend (ej: errores por campo)
+// digest: el código, para que el cliente lo reciba aunque Next.js oculte el mensaje (ver lib/api/error-code.ts)
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+  readonly digest: string;
+
+  constructor(
+    status: number,
+    code: string,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.digest = toApiErrorDigest(code);
+  }
+}
+
+// Formato de error que envía el backend Express: { success: false, error: { message, code, details } }
+const errorEnvelopeSchema = z.object({
+  error: z.object({
+    message: z.string().optional(),
+    code: z.string().optional(),
+    details: z.unknown().optional(),
+  }),
+});
+
+// Construye un ApiError a partir de una respuesta fallida del backend
+// Si el body no tiene el formato esperado, usa el statusText como mensaje
+async function toApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  const parsed = errorEnvelopeSchema.safeParse(body);
+  const error = parsed.success ? parsed.data.error : {};
+
+  return new ApiError(
+    response.status,
+    error.code ?? `HTTP_${response.status}`,
+    error.message ?? `Request failed: ${response.statusText}`,
+    error.details
+  );
+}
+
+// Errores por campo en los formatos que puede enviar el backend en details:
+// - { fieldErrors: { campo: ['mensaje'] } } (zod flatten, igual que INVALID_REQUEST)
+// - [{ field | path, message }] (express-validator y similares)
+// - { campo: 'mensaje' | ['mensaje'] }
+const fieldErrorsSchema = z.union([
+  z
+    .object({
+      fieldErrors: z.record(z.string(), z.array(z.string()).optional()),
+    })
+    .transform(({ fieldErrors }) => fieldErrors),
+  z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        path: z
+          .union([z.string(), z.array(z.union([z.string(), z.number()]))])
+          .optional(),
+        message: z.string(),
+      })
+    )
+    .transform((issues) => {
+      const fieldErrors: Record<string, string[]> = {};
+      for (const issue of issues) {
+        const field =
+          issue.field ??
+          (Array.isArray(issue.path) ? issue.path.join('.') : issue.path);
+        if (field) (fieldErrors[field] ??= []).push(issue.message);
+      }
+      return fieldErrors;
+    }),
+  z.record(z.string(), z.union([z.string(), z.array(z.string())])),
+]);
+
+// Extrae los errores por campo de un ApiError (un mensaje por campo, el primero)
+// Retorna un objeto vacío si el error no trae información por campo
+export function getFieldErrors(error: ApiError): Record<string, string> {
+  const parsed = fieldErrorsSchema.safeParse(error.details);
+  if (!parsed.success) return {};
+
+  const fieldErrors: Record<string, string> = {};
+  for (const [field, messages] of Object.entries(parsed.data)) {
+    const message = Array.isArray(messages) ? messages[0] : messages;
+    if (message) fieldErrors[field] = message;
+  }
+  return fieldErrors;
+}
+
+// Construye la URL absoluta del backend para un path de la API
+export function apiUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_API_URL}${path}`;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Definición de un endpoint del backend
+// - path: puede incluir parámetros con ":" (ej: '/api/user/sessions/:id'), que se completan con el input
+// - input: schema del request. Los campos que no son parámetros del path van al query string
+//   en GET/DELETE y al body (JSON o multipart) en el resto de los métodos
+// - output: schema del campo `data` de la respuesta ({ success: true, data })
+// - auth: usa fetchWithAuth (refresh automático) o fetch directo para endpoints públicos
+// - skipRefresh: valor por defecto de skipRefresh para fetchWithAuth (se puede sobrescribir por llamada)
+// - forwardCookies: reenvía al navegador las cookies del Set-Cookie de la respuesta
+//   (true = cookies de sesión, o un allowlist de nombres)
+// - encoding: 'multipart' envía el body como FormData (ej: subida de archivos)
+interface EndpointDefinition<
+  TInput extends z.ZodType,
+  TOutput extends z.ZodType,
+> {
+  method: HttpMethod;
+  path: string;
+  input?: TInput;
+  output: TOutput;
+  auth?: boolean;
+  skipRefresh?: boolean;
+  forwardCookies?: boolean | readonly string[];
+  encoding?: 'json' | 'multipart';
+}
+
+// Opciones por llamada
+export interface EndpointCallOptions {
+  skipRefresh?: boolean;
+  signal?: AbortSignal;
+}
+
+// Función generada para un endpoint: sin input si el endpoint no define schema de request
+export type EndpointFn<
+  TInput extends z.ZodType,
+  TOutput extends z.ZodType,
+> = TInput extends z.ZodVoid
+  ? (options?: EndpointCallOptions) => Promise<z.output<TOutput>>
+  : (
+      input: z.input<TInput>,
+      options?: EndpointCallOptions
+    ) => Promise<z.output<TOutput>>;
+
+// Agrega un valor al query string (arrays como parámetros repetidos, fechas en ISO)
+function appendSearchParam(
+  searchParams: URLSearchParams,
+  key: string,
+  value: unknown
+) {
+  if (value === undefined || value === null) return;
+  if (Array.isArray(value)) {
+    for (const item of value) appendSearchParam(searchParams, key, item);
+    return;
+  }
+  searchParams.append(
+    key,
+    value instanceof Date ? value.toISOString() : String(value)
+  );
+}
+
+// Arma la URL y el body del request a partir del input ya validado
+function buildRequest(
+  definition: EndpointDefinition<z.ZodType, z.ZodType>,
+  input: unknown
+): { url: string; body?: BodyInit } {
+  const fields: Record<string, unknown> =
+    input && typeof input === 'object' ? { ...input } : {};
+
+  // Completa los parámetros del path (:id) y los quita de los campos restantes
+  const path = definition.path.replace(/:(\w+)/g, (_, name: string) => {
+    const value = fields[name];
+    delete fields[name];
+    return encodeURIComponent(String(value));
+  });
+
+  if (definition.method === 'GET' || definition.method === 'DELETE') {
+    const searchParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(fields)) {
+      appendSearchParam(searchParams, key, value);
+    }
+    const search = searchParams.toString();
+    return { url: apiUrl(search ? `${path}?${search}` : path) };
+  }
+
+  if (definition.encoding === 'multipart') {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined || value === null) continue;
+      formData.append(key, value instanceof Blob ? value : String(value));
+    }
+    return { url: apiUrl(path), body: formData };
+  }
+
+  return {
+    url: apiUrl(path),
+    body: input === undefined ? undefined : JSON.stringify(fields),
+  };
+}
+
+// Genera una función tipada para un endpoint del backend
+// Valida el input con zod ANTES de enviar el request y la respuesta con zod al recibirla,
+// y convierte cualquier error (HTTP, validación o formato) en un ApiError
+//
+// Ejemplo:
+// const getSession = defineEndpoint({ method: 'GET', path: '/api/auth/me', output: sessionSchema });
+// const session = await getSession(); // tipado como Session
+export function defineEndpoint<
+  TOutput extends z.ZodType,
+  TInput extends z.ZodType = z.ZodVoid,
+>(
+  definition: EndpointDefinition<TInput, TOutput>
+): EndpointFn<TInput, TOutput> {
+  const responseSchema = z.object({ data: definition.output as z.ZodType });
+
+  const call = async (...args: unknown[]) => {
+    const [rawInput, options = {}] = (
+      definition.input ? args : [undefined, args[0]]
+    ) as [unknown, EndpointCallOptions | undefined];
+
+    // Valida el request: un input inválido nunca llega al backend
+    let input: unknown;
+    if (definition.input) {
+      const parsedInput = definition.input.safeParse(rawInput);
+      if (!parsedInput.success) {
+        throw new ApiError(
+          400,
+          'INVALID_REQUEST',
+          parsedInput.error.issues[0]?.message ?? 'Invalid request',
+          z.flattenError(parsedInput.error)
+        );
+      }
+      input = parsedInput.data;
+    }
+
+    const { url, body } = buildRequest(
+      definition as EndpointDefinition<z.ZodType, z.ZodType>,
+      input
+    );
+    const requestInit: RequestInit = {
+      method: definition.method,
+      body,
+      signal: options.signal,
+    };
+
+    const response =
+      definition.auth === false
+        ? await fetch(url, {
+            ...requestInit,
+            ...(!(body instanceof FormData) && {
+              headers: { 'Content-Type': 'application/json' },
+            }),
+          })
+        : await fetchWithAuth(url, {
+            ...requestInit,
+            skipRefresh: options.skipRefresh ?? definition.skipRefresh,
+          });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    if (definition.forwardCookies) {
+      const setCookieHeaders = response.headers.getSetCookie();
+      if (setCookieHeaders.length > 0) {
+        await extractAndSetCookies(
+          setCookieHeaders,
+          definition.forwardCookies === true
+            ? undefined
+            : definition.forwardCookies
+        );
+      }
+    }
+
+    // 204 No Content (o body vacío): no hay envelope, se valida data como undefined
+    const text = await response.text();
+    let responseBody: unknown = { data: undefined };
+    try {
+      if (text) responseBody = JSON.parse(text);
+    } catch {
+      responseBody = null;
+    }
+
+    const parsedResponse = responseSchema.safeParse(responseBody);
+    if (!parsedResponse.success) {
+      throw new ApiError(
+        response.status,
+        'INVALID_RESPONSE',
+        `Unexpected response from ${definition.method} ${definition.path}`,
+        z.flattenError(parsedResponse.error)
+      );
+    }
+
+    return parsedResponse.data.data;
+  };
+
+  return call as EndpointFn<TInput, TOutput>;
+}
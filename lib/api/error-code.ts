@@ -0,0 +1,29 @@
+import { SESSION_EXPIRED_CODE } from '@/lib/session-expired';
+
+// Código de error de un ApiError que cruza el límite de una Server Action
+// En producción Next.js oculta el mensaje de los errores lanzados por una Server Action, pero conserva
+// su digest: ApiError guarda ahí su código para que el cliente lo pueda traducir (ver lib/i18n/errors.ts)
+// Este módulo no depende de next/headers: lo pueden importar componentes cliente
+
+const API_ERROR_DIGEST_PREFIX = 'API_ERROR:';
+
+export function toApiErrorDigest(code: string): string {
+  return `${API_ERROR_DIGEST_PREFIX}${code}`;
+}
+
+// Código de un error capturado (ApiError en el servidor o su versión serializada en el cliente)
+// Retorna 'UNKNOWN' si el error no viene del backend (ej: un error de red o un bug)
+export function getErrorCode(error: unknown): string {
+  const digest =
+    typeof error === 'object' && error !== null && 'digest' in error
+      ? error.digest
+      : undefined;
+
+  if (typeof digest === 'string') {
+    if (digest.startsWith(API_ERROR_DIGEST_PREFIX)) {
+      return digest.slice(API_ERROR_DIGEST_PREFIX.length);
+    }
+    if (digest === SESSION_EXPIRED_CODE) return SESSION_EXPIRED_CODE;
+  }
+  return 'UNKNOWN';
+}
@@ -0,0 +1,52 @@
+import * as z from 'zod';
+import { defineEndpoint } from '@/lib/api/client';
+
+export const mfaStatusSchema = z.object({
+  enabled: z.boolean(),
+  enabled_at: z.string().nullable().optional(),
+  recovery_codes_remaining: z.number().int().nonnegative().optional(),
+});
+
+export const mfaSetupSchema = z.object({
+  secret: z.string(),
+  otpauth_url: z.string().startsWith('otpauth://'),
+});
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export type MfaStatus = z.infer<typeof mfaStatusSchema>;
+
+// Endpoints de /api/auth/mfa/* (gestión del segundo factor del usuario logueado)
+export const mfaApi = {
+  status: defineEndpoint({
+    method: 'GET',
+    path: '/api/auth/mfa/status',
+    output: mfaStatusSchema,
+  }),
+
+  // Genera un secreto TOTP nuevo (todavía inactivo hasta confirmarlo con enable)
+  setup: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/mfa/setup',
+    output: mfaSetupSchema,
+  }),
+
+  // Activa 2FA verificando un primer código. Devuelve los códigos de recuperación (se muestran UNA vez)
+  enable: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/mfa/enable',
+    input: z.object({ code: totpCodeSchema }),
+    output: z.object({ recovery_codes: z.array(z.string()) }),
+  }),
+
+  // Desactiva 2FA: requiere re-autenticación con la contraseña y un código vigente
+  disable: defineEndpoint({
+    method: 'POST',
+    path: '/api/auth/mfa/disable',
+    input: z.object({
+      password: z.string().min(1, 'Password is required'),
+      code: totpCodeSchema,
+    }),
+    output: z.unknown(),
+  }),
+};
@@ -0,0 +1,31 @@
+import * as z from 'zod';
+
+// Schemas compartidos de las entidades del backend
+// Los tipos se infieren de los schemas para que validación y tipado nunca se desincronicen
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: z.string().nullable(),
+});
+
+export const profileSchema = z.object({
+  id: z.string(),
+  full_name: z.string().nullable(),
+  email: z.string().nullable(),
+  bio: z.string().nullable(),
+  avatar_url: z.string().nullable(),
+  status: z.string().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// Usuario + perfil: lo que devuelven login y /api/auth/me
+export const sessionSchema = z.object({
+  user: userSchema,
+  profile: profileSchema,
+});
+
+export type UserData = z.infer<typeof userSchema>;
+export type ProfileData = z.infer<typeof profileSchema>;
+export type Session = z.infer<typeof sessionSchema>;
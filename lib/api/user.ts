@@ -0,0 +1,130 @@
+import * as z from 'zod';
+import { defineEndpoint } from '@/lib/api/client';
+import { profileSchema } from '@/lib/api/schemas';
+import { countDays } from '@/lib/date-range';
+
+// Día de calendario 'YYYY-MM-DD' (ver lib/date-range.ts)
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date');
+
+// Máximo de días que se pueden pedir de una vez (un año)
+export const STATS_MAX_RANGE_DAYS = 366;
+
+// Rango de las estadísticas (ambos extremos inclusive)
+export const usersStatsInputSchema = z
+  .object({ from: isoDateSchema, to: isoDateSchema })
+  .refine(({ from, to }) => from <= to, {
+    message: 'Start date must be before end date',
+    path: ['to'],
+  })
+  .refine(({ from, to }) => countDays({ from, to }) <= STATS_MAX_RANGE_DAYS, {
+    message: `Date range must be at most ${STATS_MAX_RANGE_DAYS} days`,
+    path: ['to'],
+  });
+
+// Un punto de la serie diaria de estadísticas (date en formato YYYY-MM-DD)
+export const statsPointSchema = z.object({
+  date: z.string(),
+  signups: z.number().int().nonnegative(),
+  active_users: z.number().int().nonnegative(),
+});
+
+// Estadísticas de usuarios
+// - total_users / active_users: totales actuales
+// - users_by_role / users_by_status: cantidad de usuarios por rol y por estado (ProfileData.status)
+// - timeseries: registros y usuarios activos por día del rango pedido, ordenada por fecha
+export const usersStatsSchema = z.object({
+  total_users: z.number().int().nonnegative(),
+  active_users: z.number().int().nonnegative(),
+  users_by_role: z.record(z.string(), z.number().int().nonnegative()),
+  users_by_status: z.record(z.string(), z.number().int().nonnegative()),
+  timeseries: z.array(statsPointSchema),
+});
+
+// Sesión = un refresh token activo del usuario (uno por dispositivo/navegador)
+export const userSessionSchema = z.object({
+  id: z.string(),
+  device: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  last_used_at: z.string().nullable(),
+  created_at: z.string(),
+  is_current: z.boolean(),
+});
+
+// Campos editables del perfil. expected_updated_at es el updated_at que el usuario tenía
+// al empezar a editar: si el perfil cambió desde entonces el backend responde 409 (conflicto)
+export const updateProfileInputSchema = z.object({
+  full_name: z.string().trim().max(100).nullable(),
+  bio: z.string().trim().max(500).nullable(),
+  expected_updated_at: z.string().nullable(),
+});
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+export const AVATAR_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const uploadAvatarInputSchema = z.object({
+  avatar: z
+    .instanceof(Blob)
+    .refine((file) => file.size > 0, 'Image is empty')
+    .refine(
+      (file) => file.size <= AVATAR_MAX_BYTES,
+      'Image must be at most 2 MB'
+    )
+    .refine(
+      (file) => AVATAR_MIME_TYPES.includes(file.type),
+      'Image must be JPEG, PNG or WebP'
+    ),
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileInputSchema>;
+export type UsersStats = z.infer<typeof usersStatsSchema>;
+export type UsersStatsInput = z.infer<typeof usersStatsInputSchema>;
+export type StatsPoint = z.infer<typeof statsPointSchema>;
+export type UserSession = z.infer<typeof userSessionSchema>;
+
+// Endpoints de /api/user/*
+export const userApi = {
+  stats: defineEndpoint({
+    method: 'GET',
+    path: '/api/user/stats',
+    input: usersStatsInputSchema,
+    output: usersStatsSchema,
+  }),
+
+  updateProfile: defineEndpoint({
+    method: 'PATCH',
+    path: '/api/user/profile',
+    input: updateProfileInputSchema,
+    output: profileSchema,
+  }),
+
+  // Sube el avatar ya recortado y redimensionado en el navegador. Devuelve el perfil con el nuevo avatar_url
+  uploadAvatar: defineEndpoint({
+    method: 'POST',
+    path: '/api/user/avatar',
+    input: uploadAvatarInputSchema,
+    output: profileSchema,
+    encoding: 'multipart',
+  }),
+
+  // El backend identifica la sesión actual por el refresh token de la cookie
+  sessions: defineEndpoint({
+    method: 'GET',
+    path: '/api/user/sessions',
+    output: z.array(userSessionSchema),
+  }),
+
+  revokeSession: defineEndpoint({
+    method: 'DELETE',
+    path: '/api/user/sessions/:id',
+    input: z.object({ id: z.string().min(1) }),
+    output: z.unknown(),
+  }),
+
+  // Revoca todos los refresh tokens del usuario excepto el de la sesión actual
+  revokeOtherSessions: defineEndpoint({
+    method: 'POST',
+    path: '/api/user/sessions/revoke-others',
+    output: z.object({ revoked: z.number().int().nonnegative() }).optional(),
+  }),
+};
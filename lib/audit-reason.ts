@@ -0,0 +1,4 @@
+// Largo permitido del motivo de las acciones administrativas (registro de auditoría)
+// Separado de lib/api/admin.ts (que depende de next/headers) para poder validarlo en el cliente
+export const AUDIT_REASON_MIN_LENGTH = 5;
+export const AUDIT_REASON_MAX_LENGTH = 500;
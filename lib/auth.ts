@@ -1,37 +1,46 @@
 import { cookies } from 'next/headers';
+import {
+  isExpiredCookie,
+  parseSetCookie,
+  toForwardedCookieOptions,
+} from '@/lib/set-cookie';
+import { SessionExpiredError } from '@/lib/session-expired';
 
-// Extrae AMBOS tokens (access y refresh) del header Set-Cookie del backend y los guarda en las cookies de Next.js
+// Nombres de las cookies de sesión que el backend envía y que se reenvían al navegador por defecto
+export const AUTH_COOKIE_NAMES = ['access_token', 'refresh_token'] as const;
+
+// Extrae las cookies permitidas del header Set-Cookie del backend y las guarda en las cookies de Next.js
 // Esto es necesario porque las Server Actions se ejecutan en el servidor de Next.js,
 // no en el navegador. Cuando el backend Express responde con Set-Cookie, Next.js no
 // guarda automáticamente esas cookies, por lo que debemos capturarlas manualmente y
 // almacenarlas en el contexto de Next.js para que estén disponibles en futuras Server Actions
-// El access_token tiene una expiración corta (15 minutos) y el refresh_token dura 7 días
+// Cada header se parsea según RFC 6265 (ver lib/set-cookie.ts) y se respetan los atributos
+// que envió el backend (Max-Age/Expires, Path, SameSite, Secure, HttpOnly) en lugar de hardcodearlos
+// Las cookies de borrado (Max-Age=0 o Expires en el pasado) eliminan la cookie correspondiente
+// allowedCookies: allowlist de nombres a reenviar (por defecto solo access_token y refresh_token);
+// cualquier otra cookie enviada por el backend se ignora
 // IMPORTANTE: El backend envía DOS headers Set-Cookie separados (uno por token)
-export async function extractAndSetCookies(setCookieHeaders: string[]) {
+export async function extractAndSetCookies(
+  setCookieHeaders: string[],
+  allowedCookies: readonly string[] = AUTH_COOKIE_NAMES
+) {
   const cookieStore = await cookies();
 
   for (const setCookieHeader of setCookieHeaders) {
-    const accessTokenMatch = setCookieHeader.match(/access_token=([^;]+)/);
-    if (accessTokenMatch) {
-      cookieStore.set('access_token', accessTokenMatch[1], {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 15 * 60,
-      });
-    }
+    const cookie = parseSetCookie(setCookieHeader);
+    if (!cookie || !allowedCookies.includes(cookie.name)) continue;
 
-    const refreshTokenMatch = setCookieHeader.match(/refresh_token=([^;]+)/);
-    if (refreshTokenMatch) {
-      cookieStore.set('refresh_token', refreshTokenMatch[1], {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 10080 * 60,
-      });
+    // El backend pidió borrar la cookie (ej: logout o refresh token revocado)
+    if (isExpiredCookie(cookie)) {
+      cookieStore.delete({ name: cookie.name, path: cookie.path ?? '/' });
+      continue;
     }
+
+    cookieStore.set(
+      cookie.name,
+      cookie.value,
+      toForwardedCookieOptions(cookie)
+    );
   }
 }
 
@@ -104,99 +113,274 @@ export async function clearAuthCookies(): Promise<void> {
   cookieStore.delete('refresh_token');
 }
 
+// Cookie con el challenge token del segundo factor (2FA) entre el login y la verificación del código
+export const MFA_CHALLENGE_COOKIE = 'mfa_challenge';
+
+// Duración por defecto del challenge (segundos) si el backend no indica expires_in
+const DEFAULT_MFA_CHALLENGE_MAX_AGE = 5 * 60;
+
+// Guarda el challenge token que devuelve el login cuando la cuenta tiene 2FA activo
+// Es httpOnly y de vida corta: solo sirve para completar el login en /login/verify
+// y NO da acceso a ningún endpoint protegido
+export async function setMfaChallenge(
+  challengeToken: string,
+  maxAge: number = DEFAULT_MFA_CHALLENGE_MAX_AGE
+): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(MFA_CHALLENGE_COOKIE, challengeToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge,
+  });
+}
+
+// Obtiene el challenge token pendiente (undefined si no hay login en curso o ya expiró)
+export async function getMfaChallenge(): Promise<string | undefined> {
+  const cookieStore = await cookies();
+  return cookieStore.get(MFA_CHALLENGE_COOKIE)?.value;
+}
+
+// Elimina el challenge token (login completado, cancelado o challenge vencido)
+export async function clearMfaChallenge(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(MFA_CHALLENGE_COOKIE);
+}
+
+// Tiempo (ms) que un refresh ya resuelto sigue disponible para otros requests con el mismo refresh token
+// Cubre el caso en que un request llega justo después de que terminó el refresh pero todavía
+// trae el refresh token anterior (el navegador aún no recibió las cookies rotadas)
+const REFRESH_RESULT_TTL_MS = 10 * 1000;
+
+// Refreshes en curso, indexados por refresh token (uno por sesión)
+// Cada entrada guarda la promesa con los headers Set-Cookie devueltos por el backend
+const inflightRefreshes = new Map<string, Promise<string[]>>();
+
+// Status con los que el backend rechaza el refresh token
+const REJECTED_REFRESH_STATUSES = [401, 403];
+
+// Renueva la sesión contra el backend deduplicando requests concurrentes (single-flight)
+// Si varias Server Actions reciben 401 al mismo tiempo, todas comparten UN SOLO
+// POST /api/auth/refresh. Esto es obligatorio porque el backend rota el refresh token:
+// si cada request hiciera su propio refresh con el mismo token, todos menos el primero fallarían
+// y el usuario sería deslogueado
+// Retorna los headers Set-Cookie con los nuevos tokens (cada llamador los guarda en su propio contexto)
+export async function refreshSession(refreshToken: string): Promise<string[]> {
+  // Si ya hay un refresh en curso (o recién resuelto) para esta sesión, lo reutiliza
+  const existingRefresh = inflightRefreshes.get(refreshToken);
+  if (existingRefresh) {
+    return existingRefresh;
+  }
+
+  const refreshPromise = (async () => {
+    // Llama al endpoint de refresh para obtener nuevos tokens
+    const refreshResponse = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/auth/refresh`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Cookie: `refresh_token=${refreshToken}`,
+        },
+      }
+    );
+
+    // Si el backend rechazó el refresh token (expirado/inválido/revocado), la sesión ya no es válida
+    if (REJECTED_REFRESH_STATUSES.includes(refreshResponse.status)) {
+      throw new SessionExpiredError();
+    }
+
+    // Cualquier otra falla (ej: 5xx) es del backend, no de la sesión: el refresh token sigue siendo válido
+    if (!refreshResponse.ok) {
+      throw new Error(`Session refresh failed: ${refreshResponse.status}`);
+    }
+
+    // Extrae los nuevos tokens del header Set-Cookie de la respuesta
+    return refreshResponse.headers.getSetCookie();
+  })();
+
+  inflightRefreshes.set(refreshToken, refreshPromise);
+
+  // Libera la entrada pasado el TTL, tanto si el refresh salió bien como si falló
+  const releaseRefresh = () => {
+    setTimeout(() => {
+      if (inflightRefreshes.get(refreshToken) === refreshPromise) {
+        inflightRefreshes.delete(refreshToken);
+      }
+    }, REFRESH_RESULT_TTL_MS);
+  };
+  refreshPromise.then(releaseRefresh, releaseRefresh);
+
+  return refreshPromise;
+}
+
+// Margen (en segundos) antes del vencimiento del access token en el que ya se considera "por expirar"
+// fetchWithAuth renueva la sesión de forma anticipada dentro de esta ventana para evitar el 401
+// Se puede configurar con la variable de entorno AUTH_REFRESH_SKEW_SECONDS (por defecto 30 segundos)
+export const DEFAULT_REFRESH_SKEW_SECONDS =
+  Number(process.env.AUTH_REFRESH_SKEW_SECONDS) || 30;
+
+// Decodifica el payload de un JWT SIN verificar la firma
+// La verificación es responsabilidad del backend: acá solo leemos claims (como exp) para decidir
+// cuándo renovar el token. Nunca usar este payload para tomar decisiones de seguridad
+// Retorna null si el token no tiene formato JWT o el payload no es JSON válido
+export function decodeJwtPayload(
+  token: string
+): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    // El payload viene en base64url: se convierte a base64 estándar y se completa el padding
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+    const bytes = Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes));
+
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Obtiene la fecha de expiración (claim exp) de un JWT en milisegundos
+// Retorna null si el token no se puede decodificar o no tiene exp
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+// Indica si el token expira dentro de la ventana de skew (o ya expiró)
+// Si no se puede leer la expiración retorna false: en ese caso decide el backend (401 reactivo)
+export function isTokenExpiringSoon(
+  token: string,
+  skewSeconds: number = DEFAULT_REFRESH_SKEW_SECONDS
+): boolean {
+  const expiresAt = getTokenExpiry(token);
+  if (expiresAt === null) return false;
+  return expiresAt - skewSeconds * 1000 <= Date.now();
+}
+
+// Renueva la sesión y guarda los nuevos tokens en las cookies de Next.js
+// Si el backend rechaza el refresh token, limpia las cookies y relanza el SessionExpiredError
+// Otros errores (red, 5xx) se relanzan sin tocar las cookies: la sesión sigue siendo válida
+export async function refreshAuthCookies(refreshToken: string): Promise<void> {
+  try {
+    // Obtiene los nuevos tokens (reutilizando el refresh en curso si otro request ya lo inició)
+    const setCookieHeaders = await refreshSession(refreshToken);
+    if (setCookieHeaders.length > 0) {
+      // Guarda los nuevos tokens en las cookies de Next.js
+      await extractAndSetCookies(setCookieHeaders);
+    }
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      await clearAuthCookies();
+    }
+    throw error;
+  }
+}
+
+// Combina los headers de autenticación (tokens actuales) con los headers propios del request
+// Si el body es FormData se omite el Content-Type JSON: fetch lo completa con el boundary del multipart
+async function buildRequestHeaders(
+  fetchOptions: RequestInit
+): Promise<HeadersInit> {
+  const { 'Content-Type': contentType, ...authHeaders } =
+    await getAuthHeaders();
+
+  return {
+    ...authHeaders,
+    ...(!(fetchOptions.body instanceof FormData) && {
+      'Content-Type': contentType,
+    }),
+    ...fetchOptions.headers,
+  };
+}
+
 // Opciones extendidas para fetchWithAuth
-// skipRefresh: permite desactivar el refresh automático para casos especiales
+// skipRefresh: permite desactivar el refresh automático (proactivo y reactivo) para casos especiales
+// refreshSkewSeconds: ventana de renovación anticipada para este request (por defecto DEFAULT_REFRESH_SKEW_SECONDS)
 interface FetchWithAuthOptions extends RequestInit {
   skipRefresh?: boolean;
+  refreshSkewSeconds?: number;
 }
 
 // 🌟 FUNCIÓN MÁGICA que hace fetch autenticado con refresh automático TRANSPARENTE
-// Esta es la clave del sistema: si el access token expiró (401), automáticamente:
-// 1. Usa el refresh token para obtener nuevos tokens del backend
-// 2. Guarda los nuevos tokens en cookies
-// 3. REINTENTA el request original con el nuevo access token
+// Esta es la clave del sistema:
+// 1. ANTES del request lee el exp del access token: si expira dentro de la ventana de skew
+//    (o no hay access token pero sí refresh token), renueva la sesión de forma anticipada
+//    y se ahorra el round trip del 401
+// 2. Si aun así el backend responde 401 (ej: token revocado o relojes desfasados), como fallback:
+//    a) Usa el refresh token para obtener nuevos tokens del backend
+//    b) Guarda los nuevos tokens en cookies
+//    c) REINTENTA el request original con el nuevo access token
 // El usuario NUNCA se da cuenta de que el token expiró - experiencia totalmente transparente
 //
 // Uso: Simplemente reemplaza fetch() por fetchWithAuth() en tus Server Actions
 // Ejemplo: const response = await fetchWithAuth('/api/user/stats', { method: 'GET' })
 //
+// Si varios requests necesitan renovar a la vez, comparten un único refresh (ver refreshSession)
+//
 // Si el refresh token también expiró o es inválido:
 // - Limpia todas las cookies
-// - Lanza error "Session expired. Please login again."
-// - El componente puede redirigir al login
+// - Lanza SessionExpiredError (lib/session-expired.ts)
+// - El cliente lo reconoce y redirige al login (ver components/session-expiry-provider.tsx)
 export async function fetchWithAuth(
   url: string,
   options: FetchWithAuthOptions = {}
 ): Promise<Response> {
-  // Extrae skipRefresh de las opciones y mantiene el resto en fetchOptions
-  const { skipRefresh, ...fetchOptions } = options;
+  // Extrae las opciones propias y mantiene el resto en fetchOptions
+  const {
+    skipRefresh,
+    refreshSkewSeconds = DEFAULT_REFRESH_SKEW_SECONDS,
+    ...fetchOptions
+  } = options;
 
-  // Obtiene los headers con ambos tokens (access y refresh)
-  const headers = await getAuthHeaders();
+  // Indica si ya se renovó la sesión en este request (para no renovar dos veces)
+  let hasRefreshed = false;
 
-  // Hace el request inicial con los tokens actuales
+  // Refresh PROACTIVO: renueva antes de que el access token expire
+  if (!skipRefresh) {
+    const accessToken = await getAuthToken();
+    const refreshToken = await getRefreshToken();
+
+    if (
+      refreshToken &&
+      (!accessToken || isTokenExpiringSoon(accessToken, refreshSkewSeconds))
+    ) {
+      await refreshAuthCookies(refreshToken);
+      hasRefreshed = true;
+    }
+  }
+
+  // Hace el request inicial con los tokens actuales (access y refresh)
   const response = await fetch(url, {
     ...fetchOptions,
-    headers: {
-      ...headers,
-      ...fetchOptions.headers,
-    },
+    headers: await buildRequestHeaders(fetchOptions),
   });
 
-  // Si recibe 401 (Unauthorized) y el refresh automático está habilitado
-  if (response.status === 401 && !skipRefresh) {
+  // Refresh REACTIVO (fallback): si recibe 401 (Unauthorized), el refresh automático está
+  // habilitado y todavía no se renovó la sesión en este request
+  if (response.status === 401 && !skipRefresh && !hasRefreshed) {
     // Obtiene el refresh token para renovar la sesión
     const refreshToken = await getRefreshToken();
 
     // Si no hay refresh token, no se puede renovar la sesión
     if (!refreshToken) {
-      throw new Error('Unauthorized: No refresh token available');
+      throw new SessionExpiredError('Unauthorized: No refresh token available');
     }
 
-    try {
-      // Llama al endpoint de refresh para obtener nuevos tokens
-      const refreshResponse = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/auth/refresh`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Cookie: `refresh_token=${refreshToken}`,
-          },
-        }
-      );
-
-      // Si el refresh falló (refresh token expirado/inválido), limpia cookies y lanza error
-      if (!refreshResponse.ok) {
-        await clearAuthCookies();
-        throw new Error('Session expired. Please login again.');
-      }
-
-      // Extrae los nuevos tokens del header Set-Cookie de la respuesta
-      const setCookieHeaders = refreshResponse.headers.getSetCookie();
-      if (setCookieHeaders && setCookieHeaders.length > 0) {
-        // Guarda los nuevos tokens en las cookies de Next.js
-        await extractAndSetCookies(setCookieHeaders);
-      }
+    await refreshAuthCookies(refreshToken);
 
-      // Obtiene los headers actualizados con los nuevos tokens
-      const newHeaders = await getAuthHeaders();
-      // REINTENTA el request original con los nuevos tokens
-      const retryResponse = await fetch(url, {
-        ...fetchOptions,
-        headers: {
-          ...newHeaders,
-          ...fetchOptions.headers,
-        },
-      });
+    // REINTENTA el request original con los nuevos tokens
+    const retryResponse = await fetch(url, {
+      ...fetchOptions,
+      headers: await buildRequestHeaders(fetchOptions),
+    });
 
-      // Retorna la respuesta del retry (el usuario nunca supo que el token expiró)
-      return retryResponse;
-    } catch (error) {
-      // Si algo falló en el proceso de refresh, limpia las cookies
-      await clearAuthCookies();
-      throw error;
-    }
+    // Retorna la respuesta del retry (el usuario nunca supo que el token expiró)
+    return retryResponse;
   }
 
   // Retorna la respuesta original si no hubo 401 o si skipRefresh está activo
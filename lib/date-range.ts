@@ -0,0 +1,73 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfQuarter,
+  subDays,
+} from 'date-fns';
+import type { MessageKey } from '@/lib/i18n/translator';
+
+// Rangos de fechas de las estadísticas
+// Las fechas viajan como días de calendario 'YYYY-MM-DD' (ambos extremos inclusive):
+// así el rango no depende de la zona horaria al pasar por la URL, Server Actions o el backend
+
+export interface DateRangeValue {
+  from: string;
+  to: string;
+}
+
+// labelKey: clave del catálogo de mensajes (lib/i18n)
+export const DATE_RANGE_PRESETS = [
+  { value: '7d', labelKey: 'dateRange.last7Days' },
+  { value: '30d', labelKey: 'dateRange.last30Days' },
+  { value: 'quarter', labelKey: 'dateRange.thisQuarter' },
+] as const satisfies readonly { value: string; labelKey: MessageKey }[];
+
+export type DateRangePreset = (typeof DATE_RANGE_PRESETS)[number]['value'];
+
+export const DEFAULT_DATE_RANGE_PRESET: DateRangePreset = '30d';
+
+// Convierte una fecha local en un día de calendario 'YYYY-MM-DD'
+export function toIsoDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Convierte un día 'YYYY-MM-DD' en una fecha local (medianoche), no en UTC como new Date('YYYY-MM-DD')
+export function parseIsoDate(value: string): Date {
+  return parseISO(value);
+}
+
+// Rango de un preset terminando hoy (incluye el día de hoy)
+export function getPresetRange(
+  preset: DateRangePreset,
+  today: Date = new Date()
+): DateRangeValue {
+  const to = toIsoDate(today);
+  switch (preset) {
+    case '7d':
+      return { from: toIsoDate(subDays(today, 6)), to };
+    case '30d':
+      return { from: toIsoDate(subDays(today, 29)), to };
+    case 'quarter':
+      return { from: toIsoDate(startOfQuarter(today)), to };
+  }
+}
+
+// Cantidad de días del rango (ambos extremos inclusive)
+export function countDays(range: DateRangeValue): number {
+  return (
+    differenceInCalendarDays(parseIsoDate(range.to), parseIsoDate(range.from)) +
+    1
+  );
+}
+
+// Período anterior de la misma duración, inmediatamente antes del rango
+// Ej: 2024-03-08..2024-03-14 → 2024-03-01..2024-03-07
+export function getPreviousPeriod(range: DateRangeValue): DateRangeValue {
+  const from = parseIsoDate(range.from);
+  return {
+    from: toIsoDate(subDays(from, countDays(range))),
+    to: toIsoDate(addDays(from, -1)),
+  };
+}
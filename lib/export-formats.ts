@@ -0,0 +1,5 @@
+// Formatos de exportación disponibles
+// Separado de lib/export.ts (que depende de Node.js y exceljs) para poder usarlo en el cliente
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
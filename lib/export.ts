@@ -0,0 +1,190 @@
+import { PassThrough, Readable } from 'node:stream';
+import ExcelJS from 'exceljs';
+import { ApiError } from '@/lib/api/client';
+import type { ExportFormat } from '@/lib/export-formats';
+import { SessionExpiredError } from '@/lib/session-expired';
+
+export { EXPORT_FORMATS, type ExportFormat } from '@/lib/export-formats';
+
+// Exportación de datos (CSV, JSON y XLSX) desde Route Handlers
+// Los archivos se generan en el servidor y se envían como stream: las filas se escriben
+// a medida que llegan del backend, sin armar el archivo completo en memoria
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// BOM de UTF-8: sin él Excel abre los CSV como ANSI y rompe los acentos y la ñ
+// En JSON NO se agrega: RFC 8259 no lo permite y muchos parsers fallan con él
+const UTF8_BOM = '\uFEFF';
+
+type CellValue = string | number | boolean | null | undefined;
+
+// Columna de una tabla exportada: encabezado y cómo obtener el valor de cada fila
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+  width?: number;
+}
+
+// Tabla exportada (una hoja en XLSX)
+export interface ExportSheet<T> {
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: Iterable<T> | AsyncIterable<T>;
+}
+
+// Escapa un valor para CSV (RFC 4180)
+// - Los campos con comas, comillas o saltos de línea van entre comillas y las comillas se duplican
+// - Los textos que empiezan con = + - @ (o tab / retorno de carro) se prefijan con ' para que
+//   Excel no los interprete como fórmulas (CSV injection)
+function escapeCsvValue(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+// Convierte un generador de texto en un ReadableStream de bytes UTF-8
+function toByteStream(
+  chunks: AsyncIterable<string>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+// CSV con BOM y fin de línea CRLF (RFC 4180)
+export function createCsvStream<T>(
+  sheet: ExportSheet<T>
+): ReadableStream<Uint8Array> {
+  return toByteStream(
+    (async function* () {
+      yield UTF8_BOM +
+        sheet.columns.map((column) => escapeCsvValue(column.header)).join(',') +
+        '\r\n';
+      for await (const row of sheet.rows) {
+        yield sheet.columns
+          .map((column) => escapeCsvValue(column.value(row)))
+          .join(',') + '\r\n';
+      }
+    })()
+  );
+}
+
+// Array JSON con indentación, escrito elemento por elemento
+export function createJsonArrayStream(
+  rows: Iterable<unknown> | AsyncIterable<unknown>
+): ReadableStream<Uint8Array> {
+  return toByteStream(
+    (async function* () {
+      let isFirst = true;
+      yield '[';
+      for await (const row of rows) {
+        const item = JSON.stringify(row, null, 2).replace(/\n/g, '\n  ');
+        yield `${isFirst ? '' : ','}\n  ${item}`;
+        isFirst = false;
+      }
+      yield isFirst ? ']\n' : '\n]\n';
+    })()
+  );
+}
+
+// Libro XLSX con una hoja por tabla, usando el writer en modo stream de exceljs
+// Cada fila se confirma (commit) apenas se escribe para liberarla de memoria
+// Los valores se guardan como celdas de texto/número: XLSX no evalúa fórmulas a partir de texto,
+// así que no hace falta el escape de CSV injection
+export function createXlsxStream<T extends unknown[]>(sheets: {
+  [K in keyof T]: ExportSheet<T[K]>;
+}): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  });
+
+  (async () => {
+    for (const sheet of sheets as ExportSheet<unknown>[]) {
+      const worksheet = workbook.addWorksheet(sheet.name);
+      worksheet.columns = sheet.columns.map((column, index) => ({
+        header: column.header,
+        key: String(index),
+        width: column.width ?? Math.max(12, column.header.length + 2),
+      }));
+      worksheet.getRow(1).font = { bold: true };
+      for await (const row of sheet.rows) {
+        worksheet
+          .addRow(sheet.columns.map((column) => column.value(row) ?? null))
+          .commit();
+      }
+      worksheet.commit();
+    }
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+// Nombre de archivo con la fecha del día: users-2024-03-14.csv
+export function buildExportFilename(
+  name: string,
+  format: ExportFormat,
+  date: Date = new Date()
+): string {
+  return `${name}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+// Respuesta de descarga: Content-Type del formato y Content-Disposition attachment
+// no-store: los datos exportados dependen del usuario y no deben quedar en caches intermedios
+export function createExportResponse(
+  body: ReadableStream<Uint8Array> | string,
+  format: ExportFormat,
+  filename: string
+): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+// Convierte un error en una respuesta JSON con el mismo formato de error que el backend
+// ({ error: { message, code } })
+// - ApiError (validación, permisos, etc.): se responde con su status y código
+// - Sin sesión (refresh token ausente o vencido): 401 SESSION_EXPIRED
+// - Cualquier otro error (backend caído, bug en la exportación): 500 genérico, sin exponer el mensaje
+export function createExportErrorResponse(error: unknown): Response {
+  let apiError: ApiError;
+  if (error instanceof ApiError) {
+    apiError = error;
+  } else if (error instanceof SessionExpiredError) {
+    apiError = new ApiError(error.status, error.code, error.message);
+  } else {
+    console.error('Export failed:', error);
+    apiError = new ApiError(500, 'SERVER_ERROR', 'Export failed');
+  }
+  return Response.json(
+    { error: { message: apiError.message, code: apiError.code } },
+    { status: apiError.status }
+  );
+}
@@ -0,0 +1,65 @@
+// Idiomas de la interfaz
+// Este módulo no depende de next/headers: lo pueden importar componentes cliente
+
+export const LOCALES = ['en', 'es'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Cookie con el idioma elegido por el usuario: tiene prioridad sobre Accept-Language
+export const LOCALE_COOKIE = 'locale';
+
+// Nombre de cada idioma en su propio idioma (selector de idioma)
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+// Cookie con la zona horaria del navegador (la escribe I18nProvider): las fechas se formatean
+// en esa zona tanto en el servidor como en el cliente, así el HTML del SSR coincide al hidratar
+export const TIME_ZONE_COOKIE = 'timezone';
+
+// Zona horaria hasta que el navegador informa la suya (primera visita)
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Valida un identificador IANA (ej: 'America/Argentina/Buenos_Aires')
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Elige el idioma a partir del header Accept-Language (ej: 'es-AR,es;q=0.9,en;q=0.8')
+// Respeta el orden de preferencia (q) y compara solo el idioma principal (es-AR → es)
+// Si ninguno está soportado usa DEFAULT_LOCALE
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const preferences = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='));
+      return {
+        language: tag.split('-')[0].toLowerCase(),
+        quality: quality ? Number(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return (preferences.find(({ language }) => isLocale(language))?.language ??
+    DEFAULT_LOCALE) as Locale;
+}
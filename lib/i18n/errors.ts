@@ -0,0 +1,25 @@
+import { getErrorCode } from '@/lib/api/error-code';
+import type { Translator } from '@/lib/i18n/translator';
+import { en } from '@/lib/i18n/messages/en';
+
+type ErrorCode = keyof typeof en.errors;
+
+function isErrorCode(code: string): code is ErrorCode {
+  return Object.hasOwn(en.errors, code);
+}
+
+// Mensaje localizado para un código de error del backend (ApiError.code)
+// Los códigos sin traducción usan un mensaje genérico: nunca se muestra el message del backend,
+// que viene siempre en inglés
+// 'HTTP_<status>' es el código que arma el cliente cuando el backend no envía uno (ver lib/api/client.ts)
+export function getErrorMessage(t: Translator, code: string): string {
+  if (isErrorCode(code)) return t(`errors.${code}`);
+  if (code === 'HTTP_429') return t('errors.TOO_MANY_REQUESTS');
+  if (/^HTTP_5\d\d$/.test(code)) return t('errors.SERVER_ERROR');
+  return t('errors.UNKNOWN');
+}
+
+// Mensaje localizado para un error capturado (ej: el que lanza una Server Action)
+export function getCaughtErrorMessage(t: Translator, error: unknown): string {
+  return getErrorMessage(t, getErrorCode(error));
+}
@@ -0,0 +1,38 @@
+import type { Locale } from '@/lib/i18n/config';
+
+// Formato de fechas y números según el idioma de la interfaz
+// Reemplaza a toLocaleString(), que usa el idioma del runtime (el del servidor en los Server Components)
+
+type DateInput = string | number | Date;
+
+// Fecha y hora: 'Mar 14, 2024, 3:05 PM' / '14 mar 2024, 15:05'
+// timeZone: la del usuario (useTimeZone / getTimeZone). Sin ella se usa la del runtime, que en un
+// componente cliente difiere entre el SSR y el navegador (error de hidratación)
+export function formatDateTime(
+  value: DateInput,
+  locale: Locale,
+  timeZone?: string
+): string {
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone,
+  }).format(new Date(value));
+}
+
+// Solo fecha; options permite formatos más cortos (ej: { month: 'short', day: 'numeric' } en los gráficos)
+export function formatDate(
+  value: DateInput,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string {
+  return new Intl.DateTimeFormat(locale, options).format(new Date(value));
+}
+
+export function formatNumber(
+  value: number,
+  locale: Locale,
+  options?: Intl.NumberFormatOptions
+): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
@@ -0,0 +1,18 @@
+import type { Translator } from '@/lib/i18n/translator';
+import { ROLES, type Role } from '@/lib/permissions';
+import { USER_STATUSES, type UserStatus } from '@/lib/users-query';
+
+// Nombres localizados de los roles y estados de cuenta
+// Los valores vienen del backend: uno desconocido se muestra tal cual en lugar de perderse
+
+export function getRoleLabel(t: Translator, role: string): string {
+  return (ROLES as readonly string[]).includes(role)
+    ? t(`roles.${role as Role}`)
+    : role;
+}
+
+export function getStatusLabel(t: Translator, status: string): string {
+  return (USER_STATUSES as readonly string[]).includes(status)
+    ? t(`statuses.${status as UserStatus}`)
+    : status;
+}
@@ -0,0 +1,429 @@
+// Catálogo en inglés: es la referencia de claves; los demás idiomas deben tener las mismas (ver Messages)
+export const en = {
+  common: {
+    notSet: 'Not set',
+    notAvailable: 'Not available',
+    notAssigned: 'Not assigned',
+    unknown: 'Unknown',
+    never: 'Never',
+    optional: 'Optional',
+    cancel: 'Cancel',
+    saving: 'Saving...',
+    verifying: 'Verifying...',
+    backToLogin: 'Back to login',
+  },
+  roles: {
+    admin: 'Admin',
+    moderator: 'Moderator',
+    user: 'User',
+  },
+  statuses: {
+    active: 'Active',
+    suspended: 'Suspended',
+  },
+  nav: {
+    account: 'Account',
+    admin: 'Admin',
+    dashboard: 'Dashboard',
+    profile: 'Profile',
+    sessions: 'Sessions',
+    security: 'Security',
+    users: 'Users',
+    stats: 'Stats',
+  },
+  pages: {
+    dashboard: 'Dashboard',
+    profile: 'Profile',
+    sessions: 'Sessions',
+    security: 'Security',
+    users: 'Users',
+    usersStats: 'Users stats',
+  },
+  theme: {
+    title: 'Theme',
+    light: 'Light',
+    dark: 'Dark',
+    system: 'System',
+  },
+  userMenu: {
+    language: 'Language',
+    logout: 'Log out',
+  },
+  commandPalette: {
+    title: 'Command palette',
+    description: 'Search pages, users and actions',
+    trigger: 'Search…',
+    placeholder: 'Search pages, users and actions…',
+    placeholderWithoutUsers: 'Search pages and actions…',
+    empty: 'No results found.',
+    searchingUsers: 'Searching users…',
+    searchUsersFailed: 'Could not search users',
+    users: 'Users',
+    actions: 'Actions',
+    showStats: 'Show users stats',
+    toggleSidebar: 'Toggle sidebar',
+    refreshSession: 'Refresh session',
+    sessionRefreshed: 'Session refreshed',
+    refreshSessionFailed: 'Could not refresh session',
+    logout: 'Log out',
+    hintNavigate: 'to navigate',
+    hintSelect: 'to select',
+    hintClose: 'to close',
+  },
+  login: {
+    title: 'Login',
+    description: 'Login to your account',
+    email: 'Email',
+    password: 'Password',
+    submit: 'Submit',
+    forgotPassword: 'Forgot your password?',
+    noAccount: "Don't have an account?",
+    register: 'Register',
+    success: 'Login successful!',
+    welcome: 'Welcome, {email}',
+    failed: 'Login failed',
+    invalidEmail: 'Invalid email address',
+    passwordTooShort: 'Password must be at least {min} characters.',
+  },
+  dashboard: {
+    editProfile: 'Edit profile',
+    showStats: 'Show users stats',
+    userInformation: 'User Information',
+    accountDetails: 'Account details',
+    id: 'ID',
+    email: 'Email',
+    role: 'Role',
+    profileInformation: 'Profile Information',
+    profileDetails: 'User profile details',
+    fullName: 'Full Name',
+    bio: 'Bio',
+    status: 'Status',
+    timestamps: 'Timestamps',
+    timestampsDescription: 'Account creation and update dates',
+    createdAt: 'Created At',
+    updatedAt: 'Updated At',
+    rawSession: 'Raw Session Data',
+    rawSessionDescription: 'Current session response',
+  },
+  forbidden: {
+    title: 'Access denied',
+    description: "You don't have permission to view this page.",
+    back: 'Back to dashboard',
+  },
+  password: {
+    requirements: {
+      length: 'At least {min} characters',
+      lowercase: 'One lowercase letter',
+      uppercase: 'One uppercase letter',
+      number: 'One number',
+      symbol: 'One symbol (recommended)',
+    },
+    errors: {
+      length: 'Password must contain at least {min} characters.',
+      lowercase: 'Password must contain one lowercase letter.',
+      uppercase: 'Password must contain one uppercase letter.',
+      number: 'Password must contain one number.',
+      symbol: 'Password must contain one symbol.',
+    },
+    strength: {
+      weak: 'Weak',
+      fair: 'Fair',
+      good: 'Good',
+      strong: 'Strong',
+    },
+    mismatch: 'Passwords do not match.',
+  },
+  register: {
+    title: 'Create account',
+    description: 'Register a new account',
+    fullName: 'Full name',
+    fullNamePlaceholder: 'Jane Doe',
+    fullNameTooLong: 'Name is too long.',
+    email: 'Email',
+    password: 'Password',
+    confirmPassword: 'Confirm password',
+    submit: 'Register',
+    submitting: 'Creating account...',
+    haveAccount: 'Already have an account?',
+    login: 'Login',
+    success: 'Account created!',
+    welcome: 'Welcome, {email}',
+    loginNow: 'You can now login with your credentials.',
+    failed: 'Registration failed',
+  },
+  forgotPassword: {
+    title: 'Forgot password',
+    description: 'Enter your email and we will send you a reset link',
+    email: 'Email',
+    submit: 'Send reset link',
+    submitting: 'Sending...',
+    remembered: 'Remembered it?',
+    failed: 'Request failed',
+    checkEmail: 'Check your email',
+    checkEmailDescription:
+      'If an account exists for {email}, you will receive a link to reset your password shortly.',
+    sendAgain: 'Send again',
+  },
+  resetPassword: {
+    title: 'Reset password',
+    description: 'Choose a new password for your account',
+    newPassword: 'New password',
+    confirmPassword: 'Confirm new password',
+    submit: 'Reset password',
+    failed: 'Password reset failed',
+    success: 'Password updated',
+    successDescription:
+      'Your password has been reset. You can now login with your new password.',
+    goToLogin: 'Go to login',
+    linkExpired: 'Link expired',
+    linkExpiredDescription:
+      'This password reset link has expired. Request a new one to continue.',
+    linkInvalid: 'Invalid link',
+    linkInvalidDescription:
+      'This password reset link is invalid or has already been used.',
+    requestNewLink: 'Request a new link',
+  },
+  mfaVerify: {
+    title: 'Two-factor authentication',
+    totpDescription:
+      'Enter the {length}-digit code from your authenticator app',
+    recoveryDescription:
+      'Enter one of the recovery codes you saved when enabling 2FA',
+    code: 'Authentication code',
+    recoveryCode: 'Recovery code',
+    recoveryCodeHint: 'Each recovery code can only be used once.',
+    submit: 'Verify',
+    useRecoveryCode: 'Use a recovery code',
+    useAuthenticator: 'Use authenticator app',
+    enterCode: 'Enter the {length}-digit code.',
+    enterRecoveryCode: 'Enter one of your recovery codes.',
+    invalidCode: 'Invalid code. Check your authenticator app and try again.',
+    invalidRecoveryCode: 'Invalid recovery code.',
+    expired: 'Verification expired',
+    expiredDescription: 'Please login again.',
+    failed: 'Verification failed',
+  },
+  mfa: {
+    title: 'Two-factor authentication',
+    enabled: 'Enabled',
+    disabled: 'Disabled',
+    enabledDescription:
+      'Your account requires a code from your authenticator app to login.',
+    disabledDescription:
+      'Add an extra layer of security by requiring a code from an authenticator app when you login.',
+    recoveryCodesRemaining: 'Recovery codes remaining: {count}',
+    enable: 'Enable 2FA',
+    starting: 'Starting...',
+    startFailed: 'Could not start 2FA setup',
+    setupTitle: 'Set up your authenticator app',
+    setupDescription:
+      'Scan the QR code with an authenticator app (Google Authenticator, 1Password, Authy...) and enter the {length}-digit code it shows.',
+    qrCodeAlt: 'QR code for your authenticator app',
+    manualKey: "Can't scan it? Enter this key manually:",
+    verificationCode: 'Verification code',
+    codeHint: 'The code changes every 30 seconds.',
+    enterCode: 'Enter the {length}-digit code.',
+    invalidCode: 'Invalid code. Check the time on your device and retry.',
+    enabledToast: 'Two-factor authentication enabled',
+    enableFailed: 'Could not enable 2FA',
+    recoveryCodesTitle: 'Save your recovery codes',
+    recoveryCodesDescription:
+      'Use these codes to login if you lose access to your authenticator app. Each code works once and they will not be shown again.',
+    recoveryCodesFileTitle: 'Two-factor authentication recovery codes',
+    recoveryCodesFileHint:
+      'Each code can be used once. Keep them somewhere safe.',
+    copy: 'Copy',
+    download: 'Download',
+    savedCodes: 'I saved my codes',
+    codesCopied: 'Recovery codes copied',
+    copyFailed: 'Could not copy to clipboard',
+    disable: 'Disable 2FA',
+    disabling: 'Disabling...',
+    disableTitle: 'Disable two-factor authentication',
+    disableDescription:
+      'Confirm your identity to turn off 2FA. Your account will be protected by your password only.',
+    currentPassword: 'Current password',
+    authenticationCode: 'Authentication code',
+    disableMissingFields:
+      'Enter your password and a current authentication code.',
+    disableInvalid: 'Incorrect password or authentication code.',
+    disabledToast: 'Two-factor authentication disabled',
+    disableFailed: 'Could not disable 2FA',
+  },
+  profile: {
+    editTitle: 'Edit profile',
+    editDescription: 'Update your public profile details',
+    fullName: 'Full name',
+    bio: 'Bio',
+    status: 'Status',
+    fullNameTooLong: 'Name must be at most {max} characters.',
+    bioTooLong: 'Bio must be at most {max} characters.',
+    save: 'Save changes',
+    reset: 'Reset',
+    updated: 'Profile updated',
+    updateFailed: 'Could not update profile',
+    conflictTitle: 'Profile changed elsewhere',
+    conflictDescription:
+      'Your profile was updated in another tab or device. Load the latest version or overwrite it with your changes.',
+    conflictDescriptionAt:
+      'Your profile was updated in another tab or device at {date}. Load the latest version or overwrite it with your changes.',
+    loadLatest: 'Load latest',
+    overwrite: 'Overwrite',
+    previewTitle: 'Preview',
+    previewDescription: 'How your profile looks to others',
+  },
+  avatar: {
+    title: 'Avatar',
+    description: 'JPEG, PNG or WebP. It will be cropped to a square.',
+    change: 'Change avatar',
+    chooseImage: 'Please choose an image file',
+    tooLarge: 'Image is too large',
+    tooLargeDescription: 'Choose an image smaller than {size} MB.',
+    readFailed: 'Could not read image',
+    cropTitle: 'Crop your avatar',
+    cropDescription: 'Drag to reposition and use the slider to zoom.',
+    cropPreview: 'Avatar crop preview',
+    zoom: 'Zoom',
+    save: 'Save avatar',
+    uploading: 'Uploading...',
+    updated: 'Avatar updated',
+    uploadFailed: 'Could not upload avatar',
+  },
+  sessions: {
+    title: 'Sessions',
+    description: 'Devices where your account is currently signed in',
+    signOutOthers: 'Sign out everywhere else',
+    signingOut: 'Signing out...',
+    signOutOthersTitle: 'Sign out other devices?',
+    signOutOthersDescriptionOne:
+      'This will end {count} other session. You will stay signed in on this device.',
+    signOutOthersDescriptionOther:
+      'This will end {count} other sessions. You will stay signed in on this device.',
+    signOut: 'Sign out',
+    device: 'Device',
+    ipAddress: 'IP address',
+    lastUsed: 'Last used',
+    created: 'Created',
+    actions: 'Actions',
+    thisDevice: 'This device',
+    revoke: 'Revoke',
+    revoking: 'Revoking...',
+    revoked: 'Session revoked',
+    revokeFailed: 'Could not revoke session',
+    othersSignedOut: 'Signed out from all other devices',
+    signOutOthersFailed: 'Could not sign out other devices',
+    unknownDevice: 'Unknown device',
+    browserOnOs: '{browser} on {os}',
+  },
+  changePassword: {
+    title: 'Change password',
+    description: 'Enter your current password to choose a new one',
+    currentPassword: 'Current password',
+    newPassword: 'New password',
+    confirmPassword: 'Confirm new password',
+    currentPasswordRequired: 'Current password is required.',
+    sameAsCurrent: 'New password must be different from the current one.',
+    revokeOthers: 'Sign out of all other devices',
+    revokeOthersDescription:
+      'Recommended if you think someone else knows your password.',
+    submit: 'Change password',
+    success: 'Password changed',
+    othersSignedOut: 'All other devices have been signed out.',
+    failed: 'Could not change password',
+  },
+  users: {
+    title: 'User management',
+    description: 'Search, filter and sort all registered accounts',
+    searchPlaceholder: 'Search by email or name',
+    searchLabel: 'Search users',
+    statusPlaceholder: 'Status',
+    allStatuses: 'All statuses',
+    user: 'User',
+    role: 'Role',
+    status: 'Status',
+    created: 'Created',
+    actions: 'Actions',
+    empty: 'No users match the current filters.',
+    showingOne: 'Showing {first}–{last} of {total} user',
+    showingOther: 'Showing {first}–{last} of {total} users',
+  },
+  userActions: {
+    actionsFor: 'Actions for {email}',
+    changeRole: 'Change role',
+    reactivate: 'Reactivate',
+    suspend: 'Suspend',
+    signOutEverywhere: 'Sign out everywhere',
+    changeRoleTitle: 'Change role to {role}?',
+    changeRoleDescription:
+      '{email} will get the permissions of the {role} role.',
+    roleUpdated: 'Role updated',
+    suspendTitle: 'Suspend {email}?',
+    suspendDescription:
+      'The user will be signed out of all devices and will not be able to sign in until the account is reactivated.',
+    userSuspended: 'User suspended',
+    reactivateTitle: 'Reactivate {email}?',
+    reactivateDescription: 'The user will be able to sign in again.',
+    userReactivated: 'User reactivated',
+    signOutEverywhereTitle: 'Sign out {email} everywhere?',
+    signOutEverywhereDescription:
+      'All sessions of this user will be revoked. They will need to sign in again on every device.',
+    userSignedOut: 'User signed out from all devices',
+    reason: 'Reason',
+    reasonPlaceholder:
+      'Why is this change needed? It will be recorded in the audit log.',
+    reasonRequired: 'Enter a reason for the audit log.',
+    reasonTooShort: 'The reason must be at least {min} characters.',
+    updateFailed: 'Could not update user',
+  },
+  stats: {
+    signups: 'Signups',
+    activeUsers: 'Active users',
+    previousPeriod: 'Previous period',
+    loadFailed: 'Could not load stats',
+    compare: 'Compare to previous period',
+    new: 'New',
+    vsPreviousPeriod: 'vs previous period',
+    totalUsers: 'Total users',
+    activeShare: '{percent}% of all users',
+    newSignups: 'New signups',
+    overDays: 'Over {days} days',
+    suspended: 'Suspended',
+    signupsOverTime: 'Signups over time',
+    signupsOverTimeDescription: 'New accounts per day',
+    activeUsersDescription: 'Users with activity per day',
+    usersByRole: 'Users by role',
+    usersByRoleDescription: 'Current distribution of roles',
+    usersByStatus: 'Users by status',
+    usersByStatusDescription: 'Current account statuses',
+  },
+  dateRange: {
+    last7Days: 'Last 7 days',
+    last30Days: 'Last 30 days',
+    thisQuarter: 'This quarter',
+    maxDays: 'Select at most {days} days',
+    apply: 'Apply',
+  },
+  export: {
+    trigger: 'Export',
+  },
+  // Mensajes por código de error del backend (ApiError.code), ver lib/i18n/errors.ts
+  errors: {
+    INVALID_CREDENTIALS: 'Invalid email or password',
+    ACCOUNT_SUSPENDED: 'Your account has been suspended',
+    EMAIL_ALREADY_REGISTERED: 'An account with this email already exists',
+    INVALID_CURRENT_PASSWORD: 'Current password is incorrect',
+    CANNOT_MANAGE_SELF: 'You cannot perform this action on your own account',
+    TOO_MANY_REQUESTS: 'Too many attempts. Please try again later',
+    INVALID_REQUEST: 'Some of the submitted data is invalid',
+    INVALID_RESPONSE: 'The server sent an unexpected response',
+    UNAUTHORIZED: 'You need to login to continue',
+    SESSION_EXPIRED: 'Your session has expired. Please login again',
+    FORBIDDEN: "You don't have permission to perform this action",
+    NOT_FOUND: 'The requested resource was not found',
+    SERVER_ERROR:
+      'The server could not process the request. Please try again later',
+    UNKNOWN: 'Something went wrong. Please try again',
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,431 @@
+import type { Messages } from '@/lib/i18n/messages/en';
+
+export const es: Messages = {
+  common: {
+    notSet: 'Sin completar',
+    notAvailable: 'No disponible',
+    notAssigned: 'Sin asignar',
+    unknown: 'Desconocido',
+    never: 'Nunca',
+    optional: 'Opcional',
+    cancel: 'Cancelar',
+    saving: 'Guardando...',
+    verifying: 'Verificando...',
+    backToLogin: 'Volver a iniciar sesión',
+  },
+  roles: {
+    admin: 'Administrador',
+    moderator: 'Moderador',
+    user: 'Usuario',
+  },
+  statuses: {
+    active: 'Activa',
+    suspended: 'Suspendida',
+  },
+  nav: {
+    account: 'Cuenta',
+    admin: 'Administración',
+    dashboard: 'Inicio',
+    profile: 'Perfil',
+    sessions: 'Sesiones',
+    security: 'Seguridad',
+    users: 'Usuarios',
+    stats: 'Estadísticas',
+  },
+  pages: {
+    dashboard: 'Inicio',
+    profile: 'Perfil',
+    sessions: 'Sesiones',
+    security: 'Seguridad',
+    users: 'Usuarios',
+    usersStats: 'Estadísticas de usuarios',
+  },
+  theme: {
+    title: 'Tema',
+    light: 'Claro',
+    dark: 'Oscuro',
+    system: 'Sistema',
+  },
+  userMenu: {
+    language: 'Idioma',
+    logout: 'Cerrar sesión',
+  },
+  commandPalette: {
+    title: 'Paleta de comandos',
+    description: 'Buscar páginas, usuarios y acciones',
+    trigger: 'Buscar…',
+    placeholder: 'Buscar páginas, usuarios y acciones…',
+    placeholderWithoutUsers: 'Buscar páginas y acciones…',
+    empty: 'No hay resultados.',
+    searchingUsers: 'Buscando usuarios…',
+    searchUsersFailed: 'No se pudo buscar usuarios',
+    users: 'Usuarios',
+    actions: 'Acciones',
+    showStats: 'Ver estadísticas de usuarios',
+    toggleSidebar: 'Mostrar u ocultar la barra lateral',
+    refreshSession: 'Renovar sesión',
+    sessionRefreshed: 'Sesión renovada',
+    refreshSessionFailed: 'No se pudo renovar la sesión',
+    logout: 'Cerrar sesión',
+    hintNavigate: 'para moverte',
+    hintSelect: 'para elegir',
+    hintClose: 'para cerrar',
+  },
+  login: {
+    title: 'Iniciar sesión',
+    description: 'Accede a tu cuenta',
+    email: 'Email',
+    password: 'Contraseña',
+    submit: 'Ingresar',
+    forgotPassword: '¿Olvidaste tu contraseña?',
+    noAccount: '¿No tienes cuenta?',
+    register: 'Regístrate',
+    success: '¡Sesión iniciada!',
+    welcome: 'Hola, {email}',
+    failed: 'No se pudo iniciar sesión',
+    invalidEmail: 'Email inválido',
+    passwordTooShort: 'La contraseña debe tener al menos {min} caracteres.',
+  },
+  dashboard: {
+    editProfile: 'Editar perfil',
+    showStats: 'Ver estadísticas de usuarios',
+    userInformation: 'Datos del usuario',
+    accountDetails: 'Detalles de la cuenta',
+    id: 'ID',
+    email: 'Email',
+    role: 'Rol',
+    profileInformation: 'Datos del perfil',
+    profileDetails: 'Detalles del perfil del usuario',
+    fullName: 'Nombre completo',
+    bio: 'Biografía',
+    status: 'Estado',
+    timestamps: 'Fechas',
+    timestampsDescription: 'Creación y última actualización de la cuenta',
+    createdAt: 'Creada',
+    updatedAt: 'Actualizada',
+    rawSession: 'Datos de la sesión',
+    rawSessionDescription: 'Respuesta de la sesión actual',
+  },
+  forbidden: {
+    title: 'Acceso denegado',
+    description: 'No tienes permiso para ver esta página.',
+    back: 'Volver al inicio',
+  },
+  password: {
+    requirements: {
+      length: 'Al menos {min} caracteres',
+      lowercase: 'Una letra minúscula',
+      uppercase: 'Una letra mayúscula',
+      number: 'Un número',
+      symbol: 'Un símbolo (recomendado)',
+    },
+    errors: {
+      length: 'La contraseña debe tener al menos {min} caracteres.',
+      lowercase: 'La contraseña debe tener una letra minúscula.',
+      uppercase: 'La contraseña debe tener una letra mayúscula.',
+      number: 'La contraseña debe tener un número.',
+      symbol: 'La contraseña debe tener un símbolo.',
+    },
+    strength: {
+      weak: 'Débil',
+      fair: 'Regular',
+      good: 'Buena',
+      strong: 'Fuerte',
+    },
+    mismatch: 'Las contraseñas no coinciden.',
+  },
+  register: {
+    title: 'Crear cuenta',
+    description: 'Registra una cuenta nueva',
+    fullName: 'Nombre completo',
+    fullNamePlaceholder: 'Ana García',
+    fullNameTooLong: 'El nombre es demasiado largo.',
+    email: 'Email',
+    password: 'Contraseña',
+    confirmPassword: 'Confirmar contraseña',
+    submit: 'Registrarme',
+    submitting: 'Creando cuenta...',
+    haveAccount: '¿Ya tienes cuenta?',
+    login: 'Inicia sesión',
+    success: '¡Cuenta creada!',
+    welcome: 'Hola, {email}',
+    loginNow: 'Ya puedes iniciar sesión con tus datos.',
+    failed: 'No se pudo crear la cuenta',
+  },
+  forgotPassword: {
+    title: 'Recuperar contraseña',
+    description: 'Ingresa tu email y te enviaremos un link para restablecerla',
+    email: 'Email',
+    submit: 'Enviar link',
+    submitting: 'Enviando...',
+    remembered: '¿La recordaste?',
+    failed: 'No se pudo enviar el pedido',
+    checkEmail: 'Revisa tu email',
+    checkEmailDescription:
+      'Si existe una cuenta para {email}, en breve recibirás un link para restablecer tu contraseña.',
+    sendAgain: 'Enviar de nuevo',
+  },
+  resetPassword: {
+    title: 'Restablecer contraseña',
+    description: 'Elige una contraseña nueva para tu cuenta',
+    newPassword: 'Contraseña nueva',
+    confirmPassword: 'Confirmar contraseña nueva',
+    submit: 'Restablecer contraseña',
+    failed: 'No se pudo restablecer la contraseña',
+    success: 'Contraseña actualizada',
+    successDescription:
+      'Tu contraseña se restableció. Ya puedes iniciar sesión con la contraseña nueva.',
+    goToLogin: 'Ir a iniciar sesión',
+    linkExpired: 'Link vencido',
+    linkExpiredDescription:
+      'Este link para restablecer la contraseña venció. Pide uno nuevo para continuar.',
+    linkInvalid: 'Link inválido',
+    linkInvalidDescription:
+      'Este link para restablecer la contraseña no es válido o ya se usó.',
+    requestNewLink: 'Pedir un link nuevo',
+  },
+  mfaVerify: {
+    title: 'Verificación en dos pasos',
+    totpDescription:
+      'Ingresa el código de {length} dígitos de tu app de autenticación',
+    recoveryDescription:
+      'Ingresa uno de los códigos de recuperación que guardaste al activar la verificación en dos pasos',
+    code: 'Código de autenticación',
+    recoveryCode: 'Código de recuperación',
+    recoveryCodeHint: 'Cada código de recuperación se puede usar una sola vez.',
+    submit: 'Verificar',
+    useRecoveryCode: 'Usar un código de recuperación',
+    useAuthenticator: 'Usar la app de autenticación',
+    enterCode: 'Ingresa el código de {length} dígitos.',
+    enterRecoveryCode: 'Ingresa uno de tus códigos de recuperación.',
+    invalidCode:
+      'Código incorrecto. Revisa tu app de autenticación y vuelve a intentarlo.',
+    invalidRecoveryCode: 'Código de recuperación incorrecto.',
+    expired: 'La verificación venció',
+    expiredDescription: 'Vuelve a iniciar sesión.',
+    failed: 'No se pudo verificar',
+  },
+  mfa: {
+    title: 'Verificación en dos pasos',
+    enabled: 'Activada',
+    disabled: 'Desactivada',
+    enabledDescription:
+      'Tu cuenta pide un código de tu app de autenticación para iniciar sesión.',
+    disabledDescription:
+      'Agrega una capa extra de seguridad pidiendo un código de una app de autenticación al iniciar sesión.',
+    recoveryCodesRemaining: 'Códigos de recuperación disponibles: {count}',
+    enable: 'Activar',
+    starting: 'Iniciando...',
+    startFailed: 'No se pudo iniciar la configuración',
+    setupTitle: 'Configura tu app de autenticación',
+    setupDescription:
+      'Escanea el código QR con una app de autenticación (Google Authenticator, 1Password, Authy...) e ingresa el código de {length} dígitos que muestra.',
+    qrCodeAlt: 'Código QR para tu app de autenticación',
+    manualKey: '¿No puedes escanearlo? Ingresa esta clave a mano:',
+    verificationCode: 'Código de verificación',
+    codeHint: 'El código cambia cada 30 segundos.',
+    enterCode: 'Ingresa el código de {length} dígitos.',
+    invalidCode:
+      'Código incorrecto. Revisa la hora de tu dispositivo y vuelve a intentarlo.',
+    enabledToast: 'Verificación en dos pasos activada',
+    enableFailed: 'No se pudo activar la verificación en dos pasos',
+    recoveryCodesTitle: 'Guarda tus códigos de recuperación',
+    recoveryCodesDescription:
+      'Usa estos códigos para iniciar sesión si pierdes el acceso a tu app de autenticación. Cada código sirve una sola vez y no se volverán a mostrar.',
+    recoveryCodesFileTitle:
+      'Códigos de recuperación de la verificación en dos pasos',
+    recoveryCodesFileHint:
+      'Cada código se puede usar una sola vez. Guárdalos en un lugar seguro.',
+    copy: 'Copiar',
+    download: 'Descargar',
+    savedCodes: 'Ya guardé mis códigos',
+    codesCopied: 'Códigos de recuperación copiados',
+    copyFailed: 'No se pudo copiar al portapapeles',
+    disable: 'Desactivar',
+    disabling: 'Desactivando...',
+    disableTitle: 'Desactivar la verificación en dos pasos',
+    disableDescription:
+      'Confirma tu identidad para desactivarla. Tu cuenta quedará protegida solo por tu contraseña.',
+    currentPassword: 'Contraseña actual',
+    authenticationCode: 'Código de autenticación',
+    disableMissingFields:
+      'Ingresa tu contraseña y un código de autenticación vigente.',
+    disableInvalid:
+      'La contraseña o el código de autenticación son incorrectos.',
+    disabledToast: 'Verificación en dos pasos desactivada',
+    disableFailed: 'No se pudo desactivar la verificación en dos pasos',
+  },
+  profile: {
+    editTitle: 'Editar perfil',
+    editDescription: 'Actualiza los datos públicos de tu perfil',
+    fullName: 'Nombre completo',
+    bio: 'Biografía',
+    status: 'Estado',
+    fullNameTooLong: 'El nombre puede tener como máximo {max} caracteres.',
+    bioTooLong: 'La biografía puede tener como máximo {max} caracteres.',
+    save: 'Guardar cambios',
+    reset: 'Descartar',
+    updated: 'Perfil actualizado',
+    updateFailed: 'No se pudo actualizar el perfil',
+    conflictTitle: 'El perfil cambió en otro lugar',
+    conflictDescription:
+      'Tu perfil se actualizó en otra pestaña o dispositivo. Carga la última versión o sobrescríbela con tus cambios.',
+    conflictDescriptionAt:
+      'Tu perfil se actualizó en otra pestaña o dispositivo el {date}. Carga la última versión o sobrescríbela con tus cambios.',
+    loadLatest: 'Cargar la última versión',
+    overwrite: 'Sobrescribir',
+    previewTitle: 'Vista previa',
+    previewDescription: 'Cómo ven tu perfil los demás',
+  },
+  avatar: {
+    title: 'Avatar',
+    description: 'JPEG, PNG o WebP. Se recortará en forma cuadrada.',
+    change: 'Cambiar avatar',
+    chooseImage: 'Elige un archivo de imagen',
+    tooLarge: 'La imagen es demasiado grande',
+    tooLargeDescription: 'Elige una imagen de menos de {size} MB.',
+    readFailed: 'No se pudo leer la imagen',
+    cropTitle: 'Recorta tu avatar',
+    cropDescription: 'Arrastra para moverla y usa el control para hacer zoom.',
+    cropPreview: 'Vista previa del recorte del avatar',
+    zoom: 'Zoom',
+    save: 'Guardar avatar',
+    uploading: 'Subiendo...',
+    updated: 'Avatar actualizado',
+    uploadFailed: 'No se pudo subir el avatar',
+  },
+  sessions: {
+    title: 'Sesiones',
+    description: 'Dispositivos en los que tu cuenta tiene la sesión iniciada',
+    signOutOthers: 'Cerrar sesión en los demás dispositivos',
+    signingOut: 'Cerrando sesión...',
+    signOutOthersTitle: '¿Cerrar sesión en los demás dispositivos?',
+    signOutOthersDescriptionOne:
+      'Se cerrará {count} sesión más. Seguirás con la sesión iniciada en este dispositivo.',
+    signOutOthersDescriptionOther:
+      'Se cerrarán otras {count} sesiones. Seguirás con la sesión iniciada en este dispositivo.',
+    signOut: 'Cerrar sesión',
+    device: 'Dispositivo',
+    ipAddress: 'Dirección IP',
+    lastUsed: 'Último uso',
+    created: 'Creada',
+    actions: 'Acciones',
+    thisDevice: 'Este dispositivo',
+    revoke: 'Cerrar',
+    revoking: 'Cerrando...',
+    revoked: 'Sesión cerrada',
+    revokeFailed: 'No se pudo cerrar la sesión',
+    othersSignedOut: 'Se cerró la sesión en los demás dispositivos',
+    signOutOthersFailed:
+      'No se pudo cerrar la sesión en los demás dispositivos',
+    unknownDevice: 'Dispositivo desconocido',
+    browserOnOs: '{browser} en {os}',
+  },
+  changePassword: {
+    title: 'Cambiar contraseña',
+    description: 'Ingresa tu contraseña actual para elegir una nueva',
+    currentPassword: 'Contraseña actual',
+    newPassword: 'Contraseña nueva',
+    confirmPassword: 'Confirmar contraseña nueva',
+    currentPasswordRequired: 'Ingresa tu contraseña actual.',
+    sameAsCurrent: 'La contraseña nueva tiene que ser distinta de la actual.',
+    revokeOthers: 'Cerrar sesión en los demás dispositivos',
+    revokeOthersDescription:
+      'Recomendado si crees que alguien más conoce tu contraseña.',
+    submit: 'Cambiar contraseña',
+    success: 'Contraseña cambiada',
+    othersSignedOut: 'Se cerró la sesión en los demás dispositivos.',
+    failed: 'No se pudo cambiar la contraseña',
+  },
+  users: {
+    title: 'Administración de usuarios',
+    description: 'Busca, filtra y ordena todas las cuentas registradas',
+    searchPlaceholder: 'Buscar por email o nombre',
+    searchLabel: 'Buscar usuarios',
+    statusPlaceholder: 'Estado',
+    allStatuses: 'Todos los estados',
+    user: 'Usuario',
+    role: 'Rol',
+    status: 'Estado',
+    created: 'Creado',
+    actions: 'Acciones',
+    empty: 'Ningún usuario coincide con los filtros.',
+    showingOne: 'Mostrando {first}–{last} de {total} usuario',
+    showingOther: 'Mostrando {first}–{last} de {total} usuarios',
+  },
+  userActions: {
+    actionsFor: 'Acciones para {email}',
+    changeRole: 'Cambiar rol',
+    reactivate: 'Reactivar',
+    suspend: 'Suspender',
+    signOutEverywhere: 'Cerrar todas sus sesiones',
+    changeRoleTitle: '¿Cambiar el rol a {role}?',
+    changeRoleDescription: '{email} tendrá los permisos del rol {role}.',
+    roleUpdated: 'Rol actualizado',
+    suspendTitle: '¿Suspender a {email}?',
+    suspendDescription:
+      'Se cerrará la sesión del usuario en todos sus dispositivos y no podrá iniciar sesión hasta que se reactive la cuenta.',
+    userSuspended: 'Usuario suspendido',
+    reactivateTitle: '¿Reactivar a {email}?',
+    reactivateDescription: 'El usuario podrá volver a iniciar sesión.',
+    userReactivated: 'Usuario reactivado',
+    signOutEverywhereTitle: '¿Cerrar todas las sesiones de {email}?',
+    signOutEverywhereDescription:
+      'Se revocarán todas las sesiones de este usuario. Tendrá que volver a iniciar sesión en cada dispositivo.',
+    userSignedOut: 'Se cerraron todas las sesiones del usuario',
+    reason: 'Motivo',
+    reasonPlaceholder:
+      '¿Por qué hace falta este cambio? Quedará registrado en el log de auditoría.',
+    reasonRequired: 'Ingresa un motivo para el log de auditoría.',
+    reasonTooShort: 'El motivo debe tener al menos {min} caracteres.',
+    updateFailed: 'No se pudo actualizar el usuario',
+  },
+  stats: {
+    signups: 'Registros',
+    activeUsers: 'Usuarios activos',
+    previousPeriod: 'Período anterior',
+    loadFailed: 'No se pudieron cargar las estadísticas',
+    compare: 'Comparar con el período anterior',
+    new: 'Nuevo',
+    vsPreviousPeriod: 'vs. período anterior',
+    totalUsers: 'Usuarios totales',
+    activeShare: '{percent}% del total de usuarios',
+    newSignups: 'Registros nuevos',
+    overDays: 'En {days} días',
+    suspended: 'Suspendidos',
+    signupsOverTime: 'Registros en el tiempo',
+    signupsOverTimeDescription: 'Cuentas nuevas por día',
+    activeUsersDescription: 'Usuarios con actividad por día',
+    usersByRole: 'Usuarios por rol',
+    usersByRoleDescription: 'Distribución actual de roles',
+    usersByStatus: 'Usuarios por estado',
+    usersByStatusDescription: 'Estado actual de las cuentas',
+  },
+  dateRange: {
+    last7Days: 'Últimos 7 días',
+    last30Days: 'Últimos 30 días',
+    thisQuarter: 'Este trimestre',
+    maxDays: 'Elige como máximo {days} días',
+    apply: 'Aplicar',
+  },
+  export: {
+    trigger: 'Exportar',
+  },
+  errors: {
+    INVALID_CREDENTIALS: 'Email o contraseña incorrectos',
+    ACCOUNT_SUSPENDED: 'Tu cuenta está suspendida',
+    EMAIL_ALREADY_REGISTERED: 'Ya existe una cuenta con este email',
+    INVALID_CURRENT_PASSWORD: 'La contraseña actual es incorrecta',
+    CANNOT_MANAGE_SELF: 'No puedes realizar esta acción sobre tu propia cuenta',
+    TOO_MANY_REQUESTS: 'Demasiados intentos. Inténtalo de nuevo más tarde',
+    INVALID_REQUEST: 'Algunos de los datos enviados no son válidos',
+    INVALID_RESPONSE: 'El servidor envió una respuesta inesperada',
+    UNAUTHORIZED: 'Tienes que iniciar sesión para continuar',
+    SESSION_EXPIRED: 'Tu sesión expiró. Vuelve a iniciar sesión',
+    FORBIDDEN: 'No tienes permiso para realizar esta acción',
+    NOT_FOUND: 'No se encontró el recurso solicitado',
+    SERVER_ERROR:
+      'El servidor no pudo procesar el pedido. Inténtalo de nuevo más tarde',
+    UNKNOWN: 'Algo salió mal. Inténtalo de nuevo',
+  },
+};
@@ -0,0 +1,8 @@
+import type { Locale } from '@/lib/i18n/config';
+import { en, type Messages } from '@/lib/i18n/messages/en';
+import { es } from '@/lib/i18n/messages/es';
+
+export type { Messages } from '@/lib/i18n/messages/en';
+
+// Solo se importa desde el servidor: el cliente recibe únicamente el catálogo del idioma activo (I18nProvider)
+export const MESSAGES: Record<Locale, Messages> = { en, es };
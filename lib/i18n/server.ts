@@ -0,0 +1,36 @@
+import { cache } from 'react';
+import { cookies, headers } from 'next/headers';
+import {
+  DEFAULT_TIME_ZONE,
+  isLocale,
+  isTimeZone,
+  LOCALE_COOKIE,
+  matchLocale,
+  TIME_ZONE_COOKIE,
+  type Locale,
+} from '@/lib/i18n/config';
+import { MESSAGES } from '@/lib/i18n/messages';
+import { createTranslator, type Translator } from '@/lib/i18n/translator';
+
+// Idioma del request: primero la cookie (elegido por el usuario), si no el header Accept-Language
+// cache(): el layout y las páginas del mismo render leen el idioma una sola vez
+export const getLocale = cache(async (): Promise<Locale> => {
+  const cookieStore = await cookies();
+  const cookieLocale = cookieStore.get(LOCALE_COOKIE)?.value;
+  if (isLocale(cookieLocale)) return cookieLocale;
+
+  const headerStore = await headers();
+  return matchLocale(headerStore.get('accept-language'));
+});
+
+// Zona horaria del navegador del usuario (cookie escrita por I18nProvider) o DEFAULT_TIME_ZONE
+export const getTimeZone = cache(async (): Promise<string> => {
+  const cookieStore = await cookies();
+  const timeZone = cookieStore.get(TIME_ZONE_COOKIE)?.value;
+  return isTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+});
+
+// t() para Server Components y Route Handlers
+export async function getTranslations(): Promise<Translator> {
+  return createTranslator(MESSAGES[await getLocale()]);
+}
@@ -0,0 +1,34 @@
+import type { Messages } from '@/lib/i18n/messages/en';
+
+// Claves de los mensajes en notación de puntos ('login.title', 'errors.INVALID_CREDENTIALS')
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string
+    ? K
+    : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+// Crea la función t() para un catálogo
+// Los mensajes pueden tener variables entre llaves: t('login.welcome', { email }) → 'Welcome, ana@…'
+// Una clave inexistente devuelve la clave misma, así el texto faltante se nota en la interfaz
+export function createTranslator(messages: Messages): Translator {
+  return (key, values) => {
+    const message = key
+      .split('.')
+      .reduce<unknown>(
+        (node, part) => (node as Record<string, unknown> | undefined)?.[part],
+        messages
+      );
+    if (typeof message !== 'string') return key;
+    if (!values) return message;
+
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? String(values[name]) : match
+    );
+  };
+}
@@ -0,0 +1,69 @@
+// Utilidades de imágenes para el navegador (canvas): recorte y compresión antes de subir
+
+// Área a recortar, en píxeles de la imagen original
+export interface CropArea {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Carga una imagen (ej: un object URL de un archivo elegido por el usuario) y espera a que se decodifique
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read image'));
+    image.src = src;
+  });
+}
+
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number
+): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+// Recorta un área cuadrada de la imagen, la redimensiona a outputSize x outputSize y la comprime
+// Usa WebP y, si el navegador no lo soporta al exportar (Safari antiguo), JPEG
+export async function cropImageToSquare(
+  image: HTMLImageElement,
+  crop: CropArea,
+  outputSize: number,
+  quality = 0.85
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+
+  // Fondo blanco: al exportar a JPEG las zonas transparentes quedarían negras
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, outputSize, outputSize);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    image,
+    crop.x,
+    crop.y,
+    crop.size,
+    crop.size,
+    0,
+    0,
+    outputSize,
+    outputSize
+  );
+
+  const webp = await canvasToBlob(canvas, 'image/webp', quality);
+  if (webp && webp.type === 'image/webp') return webp;
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) {
+    throw new Error('Could not process image');
+  }
+  return jpeg;
+}
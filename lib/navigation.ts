@@ -0,0 +1,97 @@
+import {
+  BarChart3,
+  LayoutDashboard,
+  MonitorSmartphone,
+  Shield,
+  User,
+  Users,
+  type LucideIcon,
+} from 'lucide-react';
+import type { MessageKey } from '@/lib/i18n/translator';
+import type { Permission } from '@/lib/permissions';
+
+// Navegación de la app autenticada: la usan el sidebar y los breadcrumbs
+// permission: el item solo se muestra si el rol del usuario tiene ese permiso (ver lib/permissions.ts)
+// Los textos son claves del catálogo de mensajes (lib/i18n): cada componente los traduce con t()
+
+export interface NavItem {
+  titleKey: MessageKey;
+  href: string;
+  icon: LucideIcon;
+  permission?: Permission;
+}
+
+export interface NavSection {
+  labelKey: MessageKey;
+  items: NavItem[];
+}
+
+export const NAV_SECTIONS: NavSection[] = [
+  {
+    labelKey: 'nav.account',
+    items: [
+      { titleKey: 'nav.dashboard', href: '/dashboard', icon: LayoutDashboard },
+      { titleKey: 'nav.profile', href: '/dashboard/profile', icon: User },
+      {
+        titleKey: 'nav.sessions',
+        href: '/dashboard/sessions',
+        icon: MonitorSmartphone,
+      },
+      { titleKey: 'nav.security', href: '/dashboard/security', icon: Shield },
+    ],
+  },
+  {
+    labelKey: 'nav.admin',
+    items: [
+      {
+        titleKey: 'nav.users',
+        href: '/admin/users',
+        icon: Users,
+        permission: 'users:read',
+      },
+      {
+        titleKey: 'nav.stats',
+        href: '/admin/stats',
+        icon: BarChart3,
+        permission: 'stats:read',
+      },
+    ],
+  },
+];
+
+// Rutas intermedias sin página propia: aparecen en los breadcrumbs pero sin link
+const SECTION_LABELS: Record<string, MessageKey> = {
+  '/admin': 'nav.admin',
+};
+
+export interface Breadcrumb {
+  labelKey: MessageKey;
+  href?: string;
+}
+
+// Breadcrumbs de un pathname: un item por cada prefijo conocido ('/admin/users' → Admin › Users)
+// Los segmentos desconocidos se ignoran
+export function getBreadcrumbs(pathname: string): Breadcrumb[] {
+  const items = NAV_SECTIONS.flatMap((section) => section.items);
+  const segments = pathname.split('/').filter(Boolean);
+  const breadcrumbs: Breadcrumb[] = [];
+
+  for (let index = 1; index <= segments.length; index++) {
+    const path = `/${segments.slice(0, index).join('/')}`;
+    const item = items.find((navItem) => navItem.href === path);
+    if (item) {
+      breadcrumbs.push({ labelKey: item.titleKey, href: item.href });
+    } else if (SECTION_LABELS[path]) {
+      breadcrumbs.push({ labelKey: SECTION_LABELS[path] });
+    }
+  }
+
+  return breadcrumbs;
+}
+
+// Indica si el item corresponde a la ruta actual (o a una subruta, salvo para /dashboard,
+// que es prefijo de las demás páginas de la cuenta)
+export function isNavItemActive(item: NavItem, pathname: string): boolean {
+  if (item.href === '/dashboard') return pathname === item.href;
+  return pathname === item.href || pathname.startsWith(`${item.href}/`);
+}
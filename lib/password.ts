@@ -0,0 +1,97 @@
+import * as z from 'zod';
+import type { MessageKey, Translator } from '@/lib/i18n/translator';
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+// labelKey / errorKey: claves del catálogo de mensajes (lib/i18n); se traducen con t(key, { min })
+export interface PasswordRequirement {
+  id: string;
+  labelKey: MessageKey;
+  errorKey: MessageKey;
+  // Las recomendadas suman a la fortaleza pero no son obligatorias para el schema
+  required: boolean;
+  test: (password: string) => boolean;
+}
+
+// Reglas de contraseña compartidas por los formularios de registro, reset y cambio de contraseña
+export const PASSWORD_REQUIREMENTS: PasswordRequirement[] = [
+  {
+    id: 'length',
+    labelKey: 'password.requirements.length',
+    errorKey: 'password.errors.length',
+    required: true,
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    id: 'lowercase',
+    labelKey: 'password.requirements.lowercase',
+    errorKey: 'password.errors.lowercase',
+    required: true,
+    test: (password) => /[a-z]/.test(password),
+  },
+  {
+    id: 'uppercase',
+    labelKey: 'password.requirements.uppercase',
+    errorKey: 'password.errors.uppercase',
+    required: true,
+    test: (password) => /[A-Z]/.test(password),
+  },
+  {
+    id: 'number',
+    labelKey: 'password.requirements.number',
+    errorKey: 'password.errors.number',
+    required: true,
+    test: (password) => /\d/.test(password),
+  },
+  {
+    id: 'symbol',
+    labelKey: 'password.requirements.symbol',
+    errorKey: 'password.errors.symbol',
+    required: false,
+    test: (password) => /[^A-Za-z0-9]/.test(password),
+  },
+];
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+// Calcula la fortaleza de la contraseña a partir de los requisitos cumplidos
+// Una contraseña larga (16+ caracteres) suma un punto extra
+export function getPasswordStrength(password: string): {
+  score: number;
+  strength: PasswordStrength;
+} {
+  const passed = PASSWORD_REQUIREMENTS.filter((requirement) =>
+    requirement.test(password)
+  ).length;
+  const score = Math.min(
+    PASSWORD_REQUIREMENTS.length,
+    passed + (password.length >= 16 ? 1 : 0)
+  );
+
+  const missingRequired = PASSWORD_REQUIREMENTS.some(
+    (requirement) => requirement.required && !requirement.test(password)
+  );
+  if (missingRequired) {
+    return { score, strength: score <= 2 ? 'weak' : 'fair' };
+  }
+
+  return {
+    score,
+    strength: score >= PASSWORD_REQUIREMENTS.length ? 'strong' : 'good',
+  };
+}
+
+// Schema de una contraseña nueva: exige todos los requisitos obligatorios
+// Los mensajes dependen del idioma, así que el schema se arma con t()
+export function createPasswordSchema(t: Translator) {
+  return PASSWORD_REQUIREMENTS.filter(
+    (requirement) => requirement.required
+  ).reduce(
+    (schema, requirement) =>
+      schema.refine(
+        requirement.test,
+        t(requirement.errorKey, { min: PASSWORD_MIN_LENGTH })
+      ),
+    z.string()
+  );
+}
@@ -0,0 +1,53 @@
+// Control de acceso basado en roles (RBAC) sobre UserData.role
+// Este módulo no depende de Next.js ni del servidor: se usa tanto en Server Actions y páginas
+// (lib/session.ts) como en el cliente (components/can.tsx)
+// La autorización REAL la hace el backend; acá solo se decide qué mostrar y se cortan
+// temprano los requests que el backend va a rechazar de todos modos
+
+// Roles conocidos, de mayor a menor privilegio
+export const ROLES = ['admin', 'moderator', 'user'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Permisos de la app con el formato '<recurso>:<acción>'
+export const PERMISSIONS = [
+  'stats:read',
+  'users:read',
+  'users:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Rol que se asume cuando el usuario no tiene rol asignado o el backend envía uno desconocido
+export const DEFAULT_ROLE: Role = 'user';
+
+// Permisos de cada rol
+// Para agregar un permiso: sumarlo a PERMISSIONS y a los roles que correspondan
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ['stats:read', 'users:read', 'users:manage'],
+  moderator: ['stats:read', 'users:read'],
+  user: [],
+};
+
+// Normaliza el rol que envía el backend (string libre o null) a un Role conocido
+export function toRole(role: string | null | undefined): Role {
+  return (ROLES as readonly string[]).includes(role ?? '')
+    ? (role as Role)
+    : DEFAULT_ROLE;
+}
+
+// Indica si el rol está entre los roles indicados
+export function hasRole(
+  role: string | null | undefined,
+  roles: readonly Role[]
+): boolean {
+  return roles.includes(toRole(role));
+}
+
+// Indica si el rol tiene el permiso indicado
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission
+): boolean {
+  return ROLE_PERMISSIONS[toRole(role)].includes(permission);
+}
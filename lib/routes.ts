@@ -0,0 +1,104 @@
+// Ruta de la página de login (a donde se redirige a los usuarios sin sesión)
+export const LOGIN_PATH = '/';
+
+// Nombre del query param con la ruta a la que volver después del login
+export const RETURN_TO_PARAM = 'returnTo';
+
+// Segundo paso del login para cuentas con 2FA
+export const MFA_VERIFY_PATH = '/login/verify';
+
+// A dónde ir después del login si no hay returnTo (o no es válido)
+export const DEFAULT_RETURN_TO = '/dashboard';
+
+// Agrega el returnTo a una ruta (ej: '/?returnTo=%2Fdashboard')
+function withReturnTo(path: string, returnTo: string): string {
+  const searchParams = new URLSearchParams({ [RETURN_TO_PARAM]: returnTo });
+  return `${path}?${searchParams}`;
+}
+
+// Construye la ruta de login con el returnTo indicado (ej: '/?returnTo=%2Fdashboard')
+export function buildLoginPath(returnTo: string): string {
+  return withReturnTo(LOGIN_PATH, returnTo);
+}
+
+// Ruta de verificación 2FA conservando el returnTo, para no perderlo entre los dos pasos del login
+export function buildMfaVerifyPath(returnTo: string): string {
+  return withReturnTo(MFA_VERIFY_PATH, returnTo);
+}
+
+// Valida el returnTo recibido por query param (protección contra open redirect)
+// Solo se aceptan rutas relativas de esta misma app: '/admin/users?page=2' sí,
+// 'https://evil.com', '//evil.com' o '/\\evil.com' (el navegador los trata como otro host) no
+// Las rutas del login también se descartan para no volver a la pantalla de login
+// Si el valor no es válido retorna DEFAULT_RETURN_TO
+export function getSafeReturnTo(value: unknown): string {
+  if (
+    typeof value !== 'string' ||
+    !value.startsWith('/') ||
+    value.startsWith('//') ||
+    /[\\\u0000-\u001f]/.test(value)
+  ) {
+    return DEFAULT_RETURN_TO;
+  }
+
+  // Resuelve la ruta contra un origen ficticio: si el resultado cambia de origen, no es una ruta local
+  // El pathname normalizado se vuelve a validar: '/..//evil.com' se normaliza a '//evil.com'
+  const base = 'http://localhost';
+  let url: URL;
+  try {
+    url = new URL(value, base);
+  } catch {
+    return DEFAULT_RETURN_TO;
+  }
+  if (
+    url.origin !== base ||
+    url.pathname.startsWith('//') ||
+    url.pathname.includes('\\') ||
+    url.pathname === LOGIN_PATH ||
+    url.pathname.startsWith(MFA_VERIFY_PATH)
+  ) {
+    return DEFAULT_RETURN_TO;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+const DEFAULT_PROTECTED_PATH_PATTERNS = ['/dashboard', '/admin'];
+
+// Patrones de rutas protegidas (requieren sesión)
+// Cada patrón protege la ruta exacta y todas sus subrutas: '/dashboard' protege '/dashboard/stats'
+// Se puede usar '*' para un segmento cualquiera: '/users/*/edit'
+// Las rutas de /admin además exigen permisos: se validan al renderizar con requirePagePermission
+// Se puede configurar con la variable de entorno PROTECTED_PATH_PATTERNS, separados por comas
+// (por defecto '/dashboard,/admin')
+export const PROTECTED_PATH_PATTERNS: readonly string[] =
+  parsePathPatterns(process.env.PROTECTED_PATH_PATTERNS) ??
+  DEFAULT_PROTECTED_PATH_PATTERNS;
+
+// Lista de patrones de una variable de entorno; null si no está definida o no tiene patrones válidos
+function parsePathPatterns(value: string | undefined): string[] | null {
+  const patterns = (value ?? '')
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.startsWith('/'));
+  return patterns.length > 0 ? patterns : null;
+}
+
+// Convierte un patrón en una expresión regular anclada al inicio del pathname
+// y terminada en un límite de segmento (fin del path o "/")
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\/+$/, '')
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+
+  return new RegExp(`^${source}(?:/|$)`);
+}
+
+// Indica si el pathname corresponde a una ruta protegida
+export function isProtectedPath(pathname: string): boolean {
+  return PROTECTED_PATH_PATTERNS.some((pattern) =>
+    patternToRegExp(pattern).test(pathname)
+  );
+}
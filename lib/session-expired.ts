@@ -0,0 +1,28 @@
+// Error de sesión vencida: la sesión ya no se puede renovar (refresh token vencido, revocado o ausente)
+// Este módulo no depende de next/headers: el cliente lo usa para reconocer el error
+
+export const SESSION_EXPIRED_CODE = 'SESSION_EXPIRED';
+
+// digest: en producción Next.js oculta el mensaje de los errores que lanzan las Server Actions,
+// pero conserva su digest. Así el cliente puede reconocer el error aunque no reciba la instancia original
+export class SessionExpiredError extends Error {
+  readonly status = 401;
+  readonly code = SESSION_EXPIRED_CODE;
+  readonly digest = SESSION_EXPIRED_CODE;
+
+  constructor(message = 'Session expired. Please login again.') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// Reconoce el error tanto en el servidor (instancia) como en el cliente (error serializado con el digest)
+export function isSessionExpiredError(error: unknown): boolean {
+  return (
+    error instanceof SessionExpiredError ||
+    (typeof error === 'object' &&
+      error !== null &&
+      'digest' in error &&
+      error.digest === SESSION_EXPIRED_CODE)
+  );
+}
@@ -0,0 +1,93 @@
+import { cache } from 'react';
+import { forbidden, redirect } from 'next/navigation';
+import { authApi } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/client';
+import type { Session } from '@/lib/api/schemas';
+import { getAuthToken, getRefreshToken } from '@/lib/auth';
+import {
+  hasPermission,
+  hasRole,
+  type Permission,
+  type Role,
+} from '@/lib/permissions';
+import { buildLoginPath } from '@/lib/routes';
+
+export type { ProfileData, Session, UserData } from '@/lib/api/schemas';
+
+// Obtiene la sesión actual (usuario + perfil) desde el backend, siempre con datos frescos
+// Funciona en pestañas nuevas (solo depende de las cookies) y refleja los cambios de perfil
+// Está envuelta en cache() de React: dentro de un mismo request (layout, page, componentes)
+// el backend se consulta UNA sola vez, aunque se llame desde varios lugares
+// Retorna null si no hay sesión o el backend la rechaza (401)
+//
+// IMPORTANTE: usa skipRefresh porque en Server Components no se pueden modificar cookies.
+// El refresh ya lo hizo proxy.ts antes de renderizar si el access token estaba por expirar
+export const getCurrentSession = cache(async (): Promise<Session | null> => {
+  const accessToken = await getAuthToken();
+  const refreshToken = await getRefreshToken();
+
+  // Sin tokens no hay sesión: evita un request al backend que sabemos que va a fallar
+  if (!accessToken && !refreshToken) {
+    return null;
+  }
+
+  try {
+    return await authApi.me({ skipRefresh: true });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      return null;
+    }
+    throw error;
+  }
+});
+
+// Valida que el usuario actual tenga alguno de los roles indicados
+// Lanza un error si no hay sesión o un ApiError 403 (FORBIDDEN) si el rol no alcanza
+// Retorna la sesión si está autorizado
+// Útil para proteger Server Actions (igual que requireAuth, pero con autorización)
+//
+// A diferencia de getCurrentSession, NO usa skipRefresh: en las Server Actions sí se pueden
+// escribir cookies, así que un access token vencido se renueva en vez de rechazar la acción
+export async function requireRole(roles: readonly Role[]): Promise<Session> {
+  const session = await authApi.me();
+  if (!hasRole(session.user.role, roles)) {
+    throw new ApiError(403, 'FORBIDDEN', 'Forbidden: insufficient role');
+  }
+  return session;
+}
+
+// Valida que el usuario actual tenga el permiso indicado (ver ROLE_PERMISSIONS en lib/permissions.ts)
+// Lanza un error si no hay sesión o un ApiError 403 (FORBIDDEN) si no tiene el permiso
+// Retorna la sesión si está autorizado
+export async function requirePermission(
+  permission: Permission
+): Promise<Session> {
+  const session = await authApi.me();
+  if (!hasPermission(session.user.role, permission)) {
+    throw new ApiError(
+      403,
+      'FORBIDDEN',
+      `Forbidden: missing permission ${permission}`
+    );
+  }
+  return session;
+}
+
+// Protección de páginas y layouts (Server Components) por permiso
+// proxy.ts solo garantiza que haya sesión: el rol no se puede conocer ahí sin consultar al backend
+// (el payload del JWT no está verificado), así que la autorización se hace al renderizar
+// - Sin sesión: redirige al login con returnTo
+// - Sin permiso: renderiza app/forbidden.tsx (403)
+export async function requirePagePermission(
+  permission: Permission,
+  returnTo: string
+): Promise<Session> {
+  const session = await getCurrentSession();
+  if (!session) {
+    redirect(buildLoginPath(returnTo));
+  }
+  if (!hasPermission(session.user.role, permission)) {
+    forbidden();
+  }
+  return session;
+}
@@ -0,0 +1,149 @@
+// Cookie parseada desde un header Set-Cookie (RFC 6265, sección 5.2)
+// Los atributos ausentes quedan undefined para poder distinguir "no enviado" de un valor explícito
+export interface ParsedSetCookie {
+  name: string;
+  value: string;
+  maxAge?: number;
+  expires?: Date;
+  domain?: string;
+  path?: string;
+  sameSite?: 'strict' | 'lax' | 'none';
+  secure: boolean;
+  httpOnly: boolean;
+}
+
+// Opciones compatibles con cookies().set() de next/headers y con NextResponse.cookies.set()
+export interface ForwardedCookieOptions {
+  httpOnly: boolean;
+  secure: boolean;
+  path: string;
+  sameSite?: 'strict' | 'lax' | 'none';
+  maxAge?: number;
+  expires?: Date;
+}
+
+// Decodifica el valor de la cookie (Express la codifica con encodeURIComponent)
+// Next.js vuelve a codificar el valor al guardarlo, así que sin esto quedaría doblemente codificado
+// Si el valor no es un URI válido se devuelve tal cual
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Parsea un header Set-Cookie siguiendo el algoritmo de RFC 6265 (sección 5.2):
+// - El primer par nombre=valor es la cookie; si no tiene "=" o el nombre está vacío se ignora todo el header
+// - Los atributos no distinguen mayúsculas/minúsculas y, si se repiten, gana el último
+// - Los atributos con valores inválidos (Max-Age no numérico, Expires no parseable) se ignoran
+// Retorna null si el header no contiene una cookie válida
+export function parseSetCookie(header: string): ParsedSetCookie | null {
+  const [nameValuePair, ...attributes] = header.split(';');
+
+  const separatorIndex = nameValuePair.indexOf('=');
+  if (separatorIndex === -1) return null;
+
+  const name = nameValuePair.slice(0, separatorIndex).trim();
+  if (!name) return null;
+
+  const cookie: ParsedSetCookie = {
+    name,
+    value: decodeCookieValue(nameValuePair.slice(separatorIndex + 1).trim()),
+    secure: false,
+    httpOnly: false,
+  };
+
+  for (const attribute of attributes) {
+    const attributeSeparatorIndex = attribute.indexOf('=');
+    const attributeName = (
+      attributeSeparatorIndex === -1
+        ? attribute
+        : attribute.slice(0, attributeSeparatorIndex)
+    )
+      .trim()
+      .toLowerCase();
+    const attributeValue =
+      attributeSeparatorIndex === -1
+        ? ''
+        : attribute.slice(attributeSeparatorIndex + 1).trim();
+
+    switch (attributeName) {
+      case 'max-age': {
+        // Solo dígitos, opcionalmente precedidos por "-" (un valor <= 0 significa borrar la cookie)
+        if (/^-?\d+$/.test(attributeValue)) {
+          cookie.maxAge = parseInt(attributeValue, 10);
+        }
+        break;
+      }
+      case 'expires': {
+        const expires = new Date(attributeValue);
+        if (!Number.isNaN(expires.getTime())) {
+          cookie.expires = expires;
+        }
+        break;
+      }
+      case 'domain': {
+        if (attributeValue) {
+          cookie.domain = attributeValue.replace(/^\./, '').toLowerCase();
+        }
+        break;
+      }
+      case 'path': {
+        // Un Path vacío o que no empieza con "/" se reemplaza por el path por defecto
+        cookie.path = attributeValue.startsWith('/')
+          ? attributeValue
+          : undefined;
+        break;
+      }
+      case 'samesite': {
+        const sameSite = attributeValue.toLowerCase();
+        if (
+          sameSite === 'strict' ||
+          sameSite === 'lax' ||
+          sameSite === 'none'
+        ) {
+          cookie.sameSite = sameSite;
+        }
+        break;
+      }
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+    }
+  }
+
+  return cookie;
+}
+
+// Indica si la cookie es una "cookie de borrado": Max-Age <= 0 o, sin Max-Age, un Expires en el pasado
+// Según RFC 6265, Max-Age tiene prioridad sobre Expires
+export function isExpiredCookie(
+  cookie: ParsedSetCookie,
+  now: number = Date.now()
+): boolean {
+  if (cookie.maxAge !== undefined) return cookie.maxAge <= 0;
+  if (cookie.expires !== undefined) return cookie.expires.getTime() <= now;
+  return false;
+}
+
+// Convierte la cookie parseada en opciones para reenviarla desde Next.js al navegador
+// - Respeta Max-Age/Expires, Path, SameSite, Secure y HttpOnly tal como los envió el backend
+// - Domain NO se reenvía: corresponde al dominio del backend, no al de la app Next.js
+// - Sin Path se usa "/" (el path por defecto del RFC sería el de /api/auth/..., que no aplica a la app)
+export function toForwardedCookieOptions(
+  cookie: ParsedSetCookie
+): ForwardedCookieOptions {
+  return {
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    path: cookie.path ?? '/',
+    ...(cookie.sameSite && { sameSite: cookie.sameSite }),
+    ...(cookie.maxAge !== undefined
+      ? { maxAge: cookie.maxAge }
+      : cookie.expires && { expires: cookie.expires }),
+  };
+}
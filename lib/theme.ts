@@ -0,0 +1,16 @@
+import { Monitor, Moon, Sun, type LucideIcon } from 'lucide-react';
+import type { MessageKey } from '@/lib/i18n/translator';
+
+// Temas de la app (next-themes aplica la clase .dark en <html>)
+// 'system' sigue la preferencia del sistema operativo (prefers-color-scheme)
+export const THEME_OPTIONS = [
+  { value: 'light', labelKey: 'theme.light', icon: Sun },
+  { value: 'dark', labelKey: 'theme.dark', icon: Moon },
+  { value: 'system', labelKey: 'theme.system', icon: Monitor },
+] as const satisfies readonly {
+  value: string;
+  labelKey: MessageKey;
+  icon: LucideIcon;
+}[];
+
+export type Theme = (typeof THEME_OPTIONS)[number]['value'];
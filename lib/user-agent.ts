@@ -0,0 +1,36 @@
+import type { Translator } from '@/lib/i18n/translator';
+
+// Patrones ordenados por prioridad: por ejemplo, el UA de Edge también contiene "Chrome/"
+// y el de Chrome también contiene "Safari/"
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Android/, 'Android'],
+  [/Linux/, 'Linux'],
+];
+
+// Descripción legible de un User-Agent (ej: "Chrome on macOS") para listar sesiones
+// Es una aproximación: solo distingue los navegadores y sistemas operativos más comunes
+export function describeUserAgent(
+  userAgent: string | null,
+  t: Translator
+): string {
+  if (!userAgent) return t('sessions.unknownDevice');
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+
+  if (browser && os) return t('sessions.browserOnOs', { browser, os });
+  return browser ?? os ?? t('sessions.unknownDevice');
+}
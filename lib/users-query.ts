@@ -0,0 +1,78 @@
+import * as z from 'zod';
+
+// Estado de la lista de usuarios de /admin/users (paginación, orden, búsqueda y filtros)
+// Vive en los search params de la URL para que cualquier vista se pueda compartir o recargar
+// No depende del servidor: lo usan tanto la página (Server Component) como los filtros (cliente)
+
+// Estados posibles de una cuenta (ProfileData.status)
+export const USER_STATUSES = ['active', 'suspended'] as const;
+
+// Columnas por las que el backend permite ordenar
+export const USER_SORT_FIELDS = ['email', 'created_at', 'role'] as const;
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+// Usuarios por página (el backend acepta hasta 100)
+export const USERS_PAGE_SIZE = 20;
+
+export type UserStatus = (typeof USER_STATUSES)[number];
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+// Cada campo cae en su valor por defecto si el param falta o es inválido (ej: ?page=abc),
+// así una URL editada a mano nunca rompe la página
+export const usersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).catch(1),
+  sort: z.enum(USER_SORT_FIELDS).catch('created_at'),
+  order: z.enum(SORT_ORDERS).catch('desc'),
+  q: z.string().trim().max(100).catch(''),
+  status: z.enum(USER_STATUSES).optional().catch(undefined),
+});
+
+export type UsersQuery = z.infer<typeof usersQuerySchema>;
+
+export const DEFAULT_USERS_QUERY = usersQuerySchema.parse({});
+
+// Parsea los searchParams de la página (Next.js entrega string | string[] | undefined por param)
+// Si un param viene repetido se usa el primer valor
+export function parseUsersQuery(
+  searchParams: Record<string, string | string[] | undefined>
+): UsersQuery {
+  const params: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(searchParams)) {
+    params[key] = Array.isArray(value) ? value[0] : value;
+  }
+  return usersQuerySchema.parse(params);
+}
+
+// Construye el query string del estado (sin "?"), omitiendo los valores por defecto
+function buildUsersSearch(query: UsersQuery): string {
+  const searchParams = new URLSearchParams();
+  for (const key of ['q', 'status', 'sort', 'order', 'page'] as const) {
+    const value = query[key];
+    if (
+      value !== undefined &&
+      value !== '' &&
+      value !== DEFAULT_USERS_QUERY[key]
+    ) {
+      searchParams.set(key, String(value));
+    }
+  }
+  return searchParams.toString();
+}
+
+// Construye la URL de la lista aplicando los cambios sobre el estado actual
+// Los valores por defecto se omiten para mantener las URLs cortas (/admin/users en vez de ?page=1&sort=...)
+export function buildUsersHref(
+  query: UsersQuery,
+  changes: Partial<UsersQuery> = {}
+): string {
+  const search = buildUsersSearch({ ...query, ...changes });
+  return search ? `/admin/users?${search}` : '/admin/users';
+}
+
+// URL de exportación con los mismos filtros y orden de la vista (exporta todas las páginas)
+export function buildUsersExportHref(query: UsersQuery): string {
+  const search = buildUsersSearch({ ...query, page: 1 });
+  return search ? `/admin/users/export?${search}` : '/admin/users/export';
+}
@@ -1,7 +1,16 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // exceljs usa requires dinámicos que el bundler de Next.js no resuelve: se carga desde node_modules
+  serverExternalPackages: ['exceljs'],
+  experimental: {
+    serverActions: {
+      // El avatar se sube como multipart a través de una Server Action (límite por defecto: 1 MB)
+      bodySizeLimit: '2mb',
+    },
+    // Habilita forbidden() para responder 403 en páginas sin permiso (ver requirePagePermission)
+    authInterrupts: true,
+  },
 };
 
 export default nextConfig;
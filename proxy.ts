@@ -0,0 +1,121 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  AUTH_COOKIE_NAMES,
+  isTokenExpiringSoon,
+  refreshSession,
+} from '@/lib/auth';
+import { buildLoginPath, isProtectedPath } from '@/lib/routes';
+import { SessionExpiredError } from '@/lib/session-expired';
+import {
+  isExpiredCookie,
+  parseSetCookie,
+  type ParsedSetCookie,
+  toForwardedCookieOptions,
+} from '@/lib/set-cookie';
+
+// Redirige al login guardando la ruta original (con su query string) en returnTo
+function redirectToLogin(request: NextRequest): NextResponse {
+  const { pathname, search } = request.nextUrl;
+  return NextResponse.redirect(
+    new URL(buildLoginPath(`${pathname}${search}`), request.url)
+  );
+}
+
+// Aplica los tokens renovados en ambos sentidos:
+// - En el REQUEST, para que los Server Components de esta misma navegación ya vean los tokens nuevos
+// - En la RESPONSE, para que el navegador guarde las cookies rotadas
+// En el proxy no se puede usar cookies() de next/headers, por eso no se reutiliza extractAndSetCookies
+function continueWithRefreshedCookies(
+  request: NextRequest,
+  setCookieHeaders: string[]
+): NextResponse {
+  const refreshedCookies: ParsedSetCookie[] = [];
+  for (const setCookieHeader of setCookieHeaders) {
+    const cookie = parseSetCookie(setCookieHeader);
+    if (
+      cookie &&
+      (AUTH_COOKIE_NAMES as readonly string[]).includes(cookie.name)
+    ) {
+      refreshedCookies.push(cookie);
+    }
+  }
+
+  for (const cookie of refreshedCookies) {
+    if (isExpiredCookie(cookie)) {
+      request.cookies.delete(cookie.name);
+    } else {
+      request.cookies.set(cookie.name, cookie.value);
+    }
+  }
+
+  const response = NextResponse.next({
+    request: { headers: request.headers },
+  });
+
+  for (const cookie of refreshedCookies) {
+    if (isExpiredCookie(cookie)) {
+      response.cookies.delete({ name: cookie.name, path: cookie.path ?? '/' });
+    } else {
+      response.cookies.set(
+        cookie.name,
+        cookie.value,
+        toForwardedCookieOptions(cookie)
+      );
+    }
+  }
+
+  return response;
+}
+
+// Protección de rutas a nivel de request (se ejecuta ANTES de renderizar la página)
+// Para las rutas protegidas (ver PROTECTED_PATH_PATTERNS en lib/routes.ts):
+// 1. Si el access token existe y no está por expirar, deja pasar el request
+// 2. Si falta o está por expirar pero hay refresh token, renueva la sesión (single-flight)
+//    y continúa con los tokens nuevos
+// 3. Si no hay refresh token o el backend rechaza el refresh, limpia las cookies y redirige al login
+//    con returnTo
+// 4. Si el refresh falla por otro motivo (red, 5xx), NO se cierra la sesión: si el access token
+//    todavía no venció se deja pasar el request y, si no, se responde 503 (el usuario puede reintentar)
+export async function proxy(request: NextRequest) {
+  if (!isProtectedPath(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  const accessToken = request.cookies.get('access_token')?.value;
+  const refreshToken = request.cookies.get('refresh_token')?.value;
+
+  if (accessToken && !isTokenExpiringSoon(accessToken)) {
+    return NextResponse.next();
+  }
+
+  if (!refreshToken) {
+    return redirectToLogin(request);
+  }
+
+  try {
+    const setCookieHeaders = await refreshSession(refreshToken);
+    return continueWithRefreshedCookies(request, setCookieHeaders);
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      const response = redirectToLogin(request);
+      for (const cookieName of AUTH_COOKIE_NAMES) {
+        response.cookies.delete(cookieName);
+      }
+      return response;
+    }
+
+    console.error('Session refresh failed:', error);
+    if (accessToken && !isTokenExpiringSoon(accessToken, 0)) {
+      return NextResponse.next();
+    }
+    return new NextResponse('Service temporarily unavailable', {
+      status: 503,
+      headers: { 'Retry-After': '10' },
+    });
+  }
+}
+
+export const config = {
+  // Excluye los assets estáticos y archivos con extensión (imágenes, favicon, etc.)
+  matcher: ['/((?!_next/static|_next/image|.*\\..*).*)'],
+};
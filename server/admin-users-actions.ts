@@ -0,0 +1,98 @@
+'use server';
+
+import { adminApi, type AdminUser } from '@/lib/api/admin';
+import { ApiError } from '@/lib/api/client';
+import type { Role } from '@/lib/permissions';
+import { requirePermission } from '@/lib/session';
+import type { UserStatus } from '@/lib/users-query';
+
+// code: código de error del backend; el diálogo lo traduce con getErrorMessage (lib/i18n/errors.ts)
+export type AdminActionResult<T = object> =
+  ({ success: true } & T) | { success: false; code: string };
+
+interface AdminActionInput {
+  userId: string;
+  reason: string;
+}
+
+// Valida el permiso y evita que un administrador se modifique a sí mismo
+// (por ejemplo, quitarse el rol de admin o suspender su propia cuenta por error)
+async function requireManageableUser(userId: string): Promise<string | null> {
+  const session = await requirePermission('users:manage');
+  return session.user.id === userId ? 'CANNOT_MANAGE_SELF' : null;
+}
+
+// Errores esperables (motivo inválido, usuario inexistente, conflicto, permisos del backend)
+// se devuelven para mostrarlos en el diálogo; el resto se relanza
+function toActionFailure(error: unknown): { success: false; code: string } {
+  if (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 401
+  ) {
+    return { success: false, code: error.code };
+  }
+  throw error;
+}
+
+export async function changeUserRole({
+  userId,
+  role,
+  reason,
+}: AdminActionInput & { role: Role }): Promise<
+  AdminActionResult<{ user: AdminUser }>
+> {
+  const forbiddenCode = await requireManageableUser(userId);
+  if (forbiddenCode) return { success: false, code: forbiddenCode };
+
+  try {
+    const user = await adminApi.updateUserRole({ id: userId, role, reason });
+    return { success: true, user };
+  } catch (error) {
+    return toActionFailure(error);
+  }
+}
+
+async function updateUserStatus(
+  { userId, reason }: AdminActionInput,
+  status: UserStatus
+): Promise<AdminActionResult<{ user: AdminUser }>> {
+  const forbiddenCode = await requireManageableUser(userId);
+  if (forbiddenCode) return { success: false, code: forbiddenCode };
+
+  try {
+    const user = await adminApi.updateUserStatus({
+      id: userId,
+      status,
+      reason,
+    });
+    return { success: true, user };
+  } catch (error) {
+    return toActionFailure(error);
+  }
+}
+
+export async function suspendUser(input: AdminActionInput) {
+  return updateUserStatus(input, 'suspended');
+}
+
+export async function reactivateUser(input: AdminActionInput) {
+  return updateUserStatus(input, 'active');
+}
+
+// Cierra la sesión del usuario en todos sus dispositivos (revoca todos sus refresh tokens)
+export async function revokeUserSessions({
+  userId,
+  reason,
+}: AdminActionInput): Promise<AdminActionResult<{ revoked?: number }>> {
+  const forbiddenCode = await requireManageableUser(userId);
+  if (forbiddenCode) return { success: false, code: forbiddenCode };
+
+  try {
+    const result = await adminApi.revokeUserSessions({ id: userId, reason });
+    return { success: true, revoked: result?.revoked };
+  } catch (error) {
+    return toActionFailure(error);
+  }
+}
@@ -0,0 +1,38 @@
+'use server';
+
+import { authApi, type ChangePasswordInput } from '@/lib/api/auth';
+import { ApiError, getFieldErrors } from '@/lib/api/client';
+
+// code: código de error del backend; el formulario lo traduce con getErrorMessage (lib/i18n/errors.ts)
+export type ChangePasswordResult =
+  | { success: true }
+  | {
+      success: false;
+      code: string;
+      fieldErrors: Record<string, string>;
+    };
+
+export async function changePassword(
+  input: ChangePasswordInput
+): Promise<ChangePasswordResult> {
+  try {
+    await authApi.changePassword(input);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ApiError && [400, 403, 422].includes(error.status)) {
+      const fieldErrors = getFieldErrors(error);
+
+      // Contraseña actual incorrecta: el backend no siempre indica el campo
+      if (error.status === 403 && Object.keys(fieldErrors).length === 0) {
+        return {
+          success: false,
+          code: 'INVALID_CURRENT_PASSWORD',
+          fieldErrors,
+        };
+      }
+
+      return { success: false, code: error.code, fieldErrors };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+'use server';
+
+import { authApi } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/client';
+
+export async function requestPasswordReset(email: string) {
+  try {
+    await authApi.forgotPassword({ email });
+  } catch (error) {
+    // Para no revelar qué emails tienen cuenta, los errores del cliente (ej: 404 usuario
+    // inexistente) se tratan como éxito. Solo se propagan rate limit y errores del servidor
+    if (
+      error instanceof ApiError &&
+      error.status < 500 &&
+      error.status !== 429
+    ) {
+      return;
+    }
+    throw error;
+  }
+}
@@ -1,22 +1,21 @@
 'use server';
 
-import { fetchWithAuth } from '@/lib/auth';
+import { userApi, type UsersStats } from '@/lib/api/user';
+import { getPreviousPeriod, type DateRangeValue } from '@/lib/date-range';
+import { requirePermission } from '@/lib/session';
 
-export async function getUsersStats() {
-  const response = await fetchWithAuth(
-    `${process.env.NEXT_PUBLIC_API_URL}/api/user/stats`,
-    {
-      method: 'GET',
-    }
-  );
+// Estadísticas del rango indicado y, si compare es true, las del período anterior de igual duración
+// Ambos requests van en paralelo (si hay que renovar el token, comparten el mismo refresh)
+export async function getUsersStats(
+  range: DateRangeValue,
+  { compare = false }: { compare?: boolean } = {}
+): Promise<{ current: UsersStats; previous: UsersStats | null }> {
+  await requirePermission('stats:read');
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.error?.message ||
-        `Failed to fetch stats: ${response.statusText}`
-    );
-  }
+  const [current, previous] = await Promise.all([
+    userApi.stats(range),
+    compare ? userApi.stats(getPreviousPeriod(range)) : null,
+  ]);
 
-  return response.json();
+  return { current, previous };
 }
@@ -1,30 +1,40 @@
 'use server';
 
-import { extractAndSetCookies } from '@/lib/auth';
+import { authApi } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/client';
+import type { Session } from '@/lib/api/schemas';
+import { setMfaChallenge } from '@/lib/auth';
 
-export async function login(email: string, password: string) {
-  const response = await fetch(
-    `${process.env.NEXT_PUBLIC_API_URL}/api/auth/login`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ email, password }),
-    }
-  );
+// code: código de error del backend; el formulario lo traduce con getErrorMessage (lib/i18n/errors.ts)
+export type LoginResult =
+  | { success: true; mfaRequired: true }
+  | ({ success: true; mfaRequired: false } & Session)
+  | { success: false; code: string };
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(
-      errorData.error?.message || `Login failed: ${response.statusText}`
-    );
-  }
+export async function login(
+  email: string,
+  password: string
+): Promise<LoginResult> {
+  try {
+    const result = await authApi.login({ email, password });
 
-  const setCookieHeaders = response.headers.getSetCookie();
-  if (setCookieHeaders && setCookieHeaders.length > 0) {
-    await extractAndSetCookies(setCookieHeaders);
-  }
+    if ('mfa_required' in result) {
+      await setMfaChallenge(result.challenge_token, result.expires_in);
+      return { success: true, mfaRequired: true };
+    }
 
-  return response.json();
+    return { success: true, mfaRequired: false, ...result };
+  } catch (error) {
+    // Errores esperables (credenciales inválidas, cuenta suspendida, demasiados intentos):
+    // se devuelve el código en lugar de lanzar, porque en producción Next.js oculta el mensaje
+    // de los errores lanzados por una Server Action
+    if (
+      error instanceof ApiError &&
+      error.status >= 400 &&
+      error.status < 500
+    ) {
+      return { success: false, code: error.code };
+    }
+    throw error;
+  }
 }
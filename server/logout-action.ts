@@ -1,5 +1,6 @@
 'use server';
 
+import { authApi } from '@/lib/api/auth';
 import { clearAuthCookies, getRefreshToken } from '@/lib/auth';
 
 export async function logout() {
@@ -7,13 +8,7 @@ export async function logout() {
 
   if (refreshToken) {
     try {
-      await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/logout`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Cookie: `refresh_token=${refreshToken}`,
-        },
-      });
+      await authApi.logout();
     } catch (error) {
       console.error('Logout request failed:', error);
     }
@@ -0,0 +1,46 @@
+'use server';
+
+import QRCode from 'qrcode';
+import { ApiError } from '@/lib/api/client';
+import { mfaApi } from '@/lib/api/mfa';
+
+export async function startMfaEnrollment() {
+  const { secret, otpauth_url } = await mfaApi.setup();
+
+  // El QR se genera en el servidor de Next.js: el secreto nunca sale hacia un servicio externo
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauth_url, {
+    errorCorrectionLevel: 'M',
+    margin: 1,
+    width: 224,
+  });
+
+  return { secret, qrCodeDataUrl };
+}
+
+export async function confirmMfaEnrollment(code: string) {
+  try {
+    const { recovery_codes } = await mfaApi.enable({ code });
+    return { success: true as const, recoveryCodes: recovery_codes };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 400) {
+      return { success: false as const };
+    }
+    throw error;
+  }
+}
+
+export async function disableMfa(password: string, code: string) {
+  try {
+    await mfaApi.disable({ password, code });
+    return { success: true as const };
+  } catch (error) {
+    // Contraseña o código incorrectos: se muestra en el formulario en lugar de lanzar
+    if (
+      error instanceof ApiError &&
+      (error.status === 400 || error.status === 403)
+    ) {
+      return { success: false as const };
+    }
+    throw error;
+  }
+}
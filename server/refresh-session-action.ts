@@ -0,0 +1,17 @@
+'use server';
+
+import { getRefreshToken, refreshAuthCookies } from '@/lib/auth';
+import { SessionExpiredError } from '@/lib/session-expired';
+
+// Renueva la sesión a pedido (ej: desde la paleta de comandos) sin esperar a que el access token expire
+// El backend rota el refresh token y las cookies nuevas se reenvían al navegador
+// Si el refresh token ya no es válido, las cookies se limpian y se lanza SessionExpiredError
+export async function refreshCurrentSession(): Promise<void> {
+  const refreshToken = await getRefreshToken();
+
+  if (!refreshToken) {
+    throw new SessionExpiredError('Unauthorized: No refresh token available');
+  }
+
+  await refreshAuthCookies(refreshToken);
+}
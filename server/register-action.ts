@@ -0,0 +1,61 @@
+'use server';
+
+import { authApi, type RegisterInput } from '@/lib/api/auth';
+import { ApiError, getFieldErrors } from '@/lib/api/client';
+import type { ProfileData, UserData } from '@/lib/api/schemas';
+import { getAuthToken } from '@/lib/auth';
+
+// code: código de error del backend; el formulario lo traduce con getErrorMessage (lib/i18n/errors.ts)
+// fieldErrors: errores por campo del backend (ej: la política de contraseñas)
+export type RegisterResult =
+  | {
+      success: true;
+      user: UserData;
+      profile?: ProfileData;
+      isAuthenticated: boolean;
+    }
+  | { success: false; reason: 'email_taken' }
+  | {
+      success: false;
+      reason: 'invalid';
+      code: string;
+      fieldErrors: Record<string, string>;
+    };
+
+export async function register(input: RegisterInput): Promise<RegisterResult> {
+  const previousToken = await getAuthToken();
+  try {
+    const result = await authApi.register(input);
+    const currentToken = await getAuthToken();
+
+    // El backend solo devuelve tokens si inicia sesión automáticamente tras el registro
+    // (si no, por ejemplo, cuando requiere verificar el email primero)
+    return {
+      success: true,
+      ...result,
+      isAuthenticated: Boolean(currentToken) && currentToken !== previousToken,
+    };
+  } catch (error) {
+    // Errores esperables (email ya registrado, contraseña rechazada por el backend): se devuelven
+    // en lugar de lanzarlos, porque en producción Next.js oculta el mensaje de los errores
+    // lanzados por una Server Action
+    if (
+      !(error instanceof ApiError) ||
+      error.status < 400 ||
+      error.status >= 500
+    ) {
+      throw error;
+    }
+
+    if (error.status === 409) {
+      return { success: false, reason: 'email_taken' };
+    }
+
+    return {
+      success: false,
+      reason: 'invalid',
+      code: error.code,
+      fieldErrors: getFieldErrors(error),
+    };
+  }
+}
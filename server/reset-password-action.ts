@@ -0,0 +1,29 @@
+'use server';
+
+import { authApi } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/client';
+
+export type ResetPasswordResult =
+  { success: true } | { success: false; reason: 'expired' | 'invalid' };
+
+export async function resetPassword(
+  token: string,
+  password: string
+): Promise<ResetPasswordResult> {
+  try {
+    await authApi.resetPassword({ token, password });
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      // El link venció: el usuario tiene que pedir uno nuevo
+      if (error.status === 410 || error.code.includes('EXPIRED')) {
+        return { success: false, reason: 'expired' };
+      }
+      // Token inexistente, ya usado o mal copiado
+      if (error.code.includes('TOKEN') || error.status === 404) {
+        return { success: false, reason: 'invalid' };
+      }
+    }
+    throw error;
+  }
+}
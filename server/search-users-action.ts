@@ -0,0 +1,23 @@
+'use server';
+
+import { adminApi, type AdminUser } from '@/lib/api/admin';
+import { requirePermission } from '@/lib/session';
+
+// Cantidad máxima de resultados de la búsqueda rápida
+const USER_SEARCH_LIMIT = 5;
+
+// Búsqueda rápida de usuarios por email o nombre (paleta de comandos)
+// La búsqueda la resuelve el backend, igual que en la lista de /admin/users
+export async function searchUsers(q: string): Promise<AdminUser[]> {
+  await requirePermission('users:read');
+
+  const { items } = await adminApi.listUsers({
+    page: 1,
+    page_size: USER_SEARCH_LIMIT,
+    sort: 'email',
+    order: 'asc',
+    q,
+  });
+
+  return items;
+}
@@ -0,0 +1,12 @@
+'use server';
+
+import { userApi } from '@/lib/api/user';
+
+export async function revokeSession(sessionId: string) {
+  await userApi.revokeSession({ id: sessionId });
+}
+
+export async function revokeOtherSessions() {
+  const result = await userApi.revokeOtherSessions();
+  return { revoked: result?.revoked };
+}
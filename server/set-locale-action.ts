@@ -0,0 +1,19 @@
+'use server';
+
+import { cookies } from 'next/headers';
+import { isLocale, LOCALE_COOKIE, type Locale } from '@/lib/i18n/config';
+
+// Guarda el idioma elegido por el usuario (un año). No es una cookie de sesión:
+// se mantiene al cerrar sesión y el navegador la puede leer
+export async function setLocale(locale: Locale) {
+  if (!isLocale(locale)) {
+    throw new Error(`Unsupported locale: ${locale}`);
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(LOCALE_COOKIE, locale, {
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+    sameSite: 'lax',
+  });
+}
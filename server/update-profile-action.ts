@@ -0,0 +1,45 @@
+'use server';
+
+import { authApi } from '@/lib/api/auth';
+import { ApiError, getFieldErrors } from '@/lib/api/client';
+import type { ProfileData } from '@/lib/api/schemas';
+import { userApi, type UpdateProfileInput } from '@/lib/api/user';
+
+export type UpdateProfileResult =
+  | { success: true; profile: ProfileData }
+  | { success: false; reason: 'conflict'; profile: ProfileData }
+  | {
+      success: false;
+      reason: 'validation';
+      code: string;
+      fieldErrors: Record<string, string>;
+    };
+
+export async function updateProfile(
+  input: UpdateProfileInput
+): Promise<UpdateProfileResult> {
+  try {
+    const profile = await userApi.updateProfile(input);
+    return { success: true, profile };
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+
+    // Otro tab/dispositivo guardó el perfil después de que el usuario empezó a editar:
+    // se devuelve la versión actual para que el usuario decida qué hacer
+    if (error.status === 409) {
+      const current = await authApi.me();
+      return { success: false, reason: 'conflict', profile: current.profile };
+    }
+
+    if (error.status === 400 || error.status === 422) {
+      return {
+        success: false,
+        reason: 'validation',
+        code: error.code,
+        fieldErrors: getFieldErrors(error),
+      };
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,12 @@
+'use server';
+
+import { userApi } from '@/lib/api/user';
+
+export async function uploadAvatar(formData: FormData) {
+  const avatar = formData.get('avatar');
+  if (!(avatar instanceof Blob)) {
+    throw new Error('No image provided');
+  }
+
+  return userApi.uploadAvatar({ avatar });
+}
@@ -0,0 +1,44 @@
+'use server';
+
+import { authApi } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/client';
+import type { Session } from '@/lib/api/schemas';
+import { clearMfaChallenge, getMfaChallenge } from '@/lib/auth';
+
+export type VerifyMfaResult =
+  | { success: true; session: Session }
+  | { success: false; reason: 'expired' | 'invalid_code' };
+
+export async function verifyMfaLogin(
+  credential: { code: string } | { recoveryCode: string }
+): Promise<VerifyMfaResult> {
+  const challengeToken = await getMfaChallenge();
+  if (!challengeToken) {
+    return { success: false, reason: 'expired' };
+  }
+
+  try {
+    const session = await authApi.verifyMfa(
+      'code' in credential
+        ? { challenge_token: challengeToken, code: credential.code }
+        : {
+            challenge_token: challengeToken,
+            recovery_code: credential.recoveryCode,
+          }
+    );
+    await clearMfaChallenge();
+    return { success: true, session };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      // El challenge venció o se agotaron los intentos: hay que volver a loguearse
+      if (error.status === 410 || error.code.includes('CHALLENGE')) {
+        await clearMfaChallenge();
+        return { success: false, reason: 'expired' };
+      }
+      if (error.status === 400 || error.status === 401) {
+        return { success: false, reason: 'invalid_code' };
+      }
+    }
+    throw error;
+  }
+}